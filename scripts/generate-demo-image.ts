@@ -1,15 +1,30 @@
 #!/usr/bin/env bun
 
 import { generateAmpImage } from "../src/image/generator";
-import type { AmpCodeStats } from "../src/types";
+import type { AmpCodeStats, AmpDailyActivity, AmpModelStats, AmpProviderStats } from "../src/types";
+import { yearRange } from "../src/utils/dates";
 import { join } from "node:path";
 
 // Generate realistic sample data
 function generateDemoStats(): AmpCodeStats {
   const year = 2025;
 
+  const demoModels: AmpModelStats[] = [
+    { id: "claude-sonnet-4", name: "Claude Sonnet 4", providerId: "anthropic", count: 29_300_000, percentage: 50.5, inputTokens: 7_400_000, outputTokens: 6_300_000, cacheReadTokens: 15_600_000, credits: 45.2 },
+    { id: "claude-opus-4-5", name: "Claude Opus 4.5", providerId: "anthropic", count: 13_900_000, percentage: 24.0, inputTokens: 4_100_000, outputTokens: 3_900_000, cacheReadTokens: 5_900_000, credits: 65.8 },
+    { id: "gpt-5", name: "GPT-5", providerId: "openai", count: 8_400_000, percentage: 14.5, inputTokens: 3_200_000, outputTokens: 1_700_000, cacheReadTokens: 3_500_000, credits: 9.1 },
+    { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", providerId: "google", count: 6_400_000, percentage: 11.0, inputTokens: 2_400_000, outputTokens: 900_000, cacheReadTokens: 3_100_000, credits: 7.35 },
+  ];
+
+  const demoProviders: AmpProviderStats[] = [
+    { id: "anthropic", name: "Anthropic", count: 43_200_000, percentage: 74.5, credits: 111.0 },
+    { id: "openai", name: "OpenAI", count: 8_400_000, percentage: 14.5, credits: 9.1 },
+    { id: "google", name: "Google", count: 6_400_000, percentage: 11.0, credits: 7.35 },
+  ];
+
   // Generate daily activity data for the whole year
   const dailyActivity = new Map<string, number>();
+  const dailyTotals = new Map<string, AmpDailyActivity>();
   const startDate = new Date(year, 6, 1);
   const endDate = new Date(year, 11, 31);
 
@@ -26,6 +41,12 @@ function generateDemoStats(): AmpCodeStats {
       // Generate activity count with realistic distribution
       const count = Math.floor(Math.random() * 25) + 1;
       dailyActivity.set(dateStr, count);
+      dailyTotals.set(dateStr, {
+        threads: Math.ceil(count / 4),
+        messages: count,
+        tokens: count * 9_000,
+        credits: count * 0.02,
+      });
     }
   }
 
@@ -54,8 +75,18 @@ function generateDemoStats(): AmpCodeStats {
   const mostActiveWeekday = weekdayCounts.indexOf(maxWeekdayCount);
   const weekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
+  // Evening-heavy hour-of-day curve, spread evenly across weekdays
+  const hourlyWeights = [6, 3, 1, 0, 0, 0, 1, 2, 4, 9, 14, 16, 11, 13, 15, 14, 12, 15, 19, 22, 24, 26, 18, 11];
+  const hourlyCounts = hourlyWeights.map((weight) => weight * 23);
+  const weekdayHourCounts = weekdayCounts.map((count) =>
+    hourlyWeights.map((weight) => Math.round((weight * count) / 60))
+  );
+  const peakHour = hourlyCounts.indexOf(Math.max(...hourlyCounts));
+
   return {
     year,
+    range: yearRange(year),
+    timeZone: "UTC",
     firstSessionDate: startDate,
     daysSinceFirstSession: Math.floor((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)),
 
@@ -72,23 +103,41 @@ function generateDemoStats(): AmpCodeStats {
     totalCredits: 127.45,
     hasCredits: true,
 
-    topModels: [
-      { id: "claude-sonnet-4", name: "Sonnet 4", providerId: "anthropic", count: 4521, percentage: 50.6, credits: 45.2 },
-      { id: "claude-opus-4-5", name: "Opus 4.5", providerId: "anthropic", count: 2134, percentage: 23.9, credits: 65.8 },
-      { id: "claude-haiku-4-5", name: "Haiku 4.5", providerId: "anthropic", count: 1289, percentage: 14.4, credits: 16.45 },
-    ],
+    models: demoModels,
+    providers: demoProviders,
+    topModels: demoModels.slice(0, 3),
+    topProviders: demoProviders.slice(0, 3),
 
-    topProviders: [
-      { id: "anthropic", name: "Anthropic", count: 5810, percentage: 65.0 },
-      { id: "openai", name: "OpenAI", count: 2134, percentage: 23.9 },
-      { id: "google", name: "Google", count: 990, percentage: 11.1 },
+    topProjects: [
+      { path: "/Users/demo/code/amp-wrapped", name: "amp-wrapped", threads: 412, messages: 6210, tokens: 19_400_000, credits: 42.1, activeDays: 96 },
+      { path: "/Users/demo/code/dashboard", name: "dashboard", threads: 287, messages: 4388, tokens: 13_100_000, credits: 29.7, activeDays: 71 },
+      { path: "/Users/demo/code/api", name: "api", threads: 164, messages: 2475, tokens: 7_900_000, credits: 17.3, activeDays: 48 },
     ],
 
+    toolUsage: {
+      totalCalls: 48_210,
+      topTools: [
+        { id: "edit_file", name: "Edit File", category: "edit", count: 14_820, percentage: 30.7 },
+        { id: "Read", name: "Read", category: "read", count: 12_455, percentage: 25.8 },
+        { id: "Bash", name: "Bash", category: "command", count: 9_310, percentage: 19.3 },
+      ],
+      categoryCounts: { edit: 16_102, read: 12_455, search: 7_884, command: 9_310, other: 2_459 },
+      editReadRatio: 0.79,
+      commandsRun: 9_310,
+      topCommands: [
+        { command: "git", count: 3_120 },
+        { command: "bun", count: 2_408 },
+        { command: "rg", count: 1_377 },
+      ],
+    },
+
     maxStreak: 21,
     currentStreak: 8,
     maxStreakDays,
 
+    heatmapMetric: "messages",
     dailyActivity,
+    dailyTotals,
 
     mostActiveDay: {
       date: "2025-10-15",
@@ -102,6 +151,40 @@ function generateDemoStats(): AmpCodeStats {
       mostActiveDayName: weekdayNames[mostActiveWeekday],
       maxCount: maxWeekdayCount,
     },
+
+    hourlyActivity: {
+      counts: hourlyCounts,
+      weekdayHourCounts,
+      peakHour,
+      maxCount: hourlyCounts[peakHour],
+      chronotype: {
+        id: "evening",
+        name: "Evening Hacker",
+        description: "38% of messages sent between 5 PM and 10 PM, peaking at 9 PM",
+      },
+    },
+
+    yearlyTotals: [
+      {
+        year,
+        threads: 1247,
+        messages: 18934,
+        tokens: 58_000_000,
+        credits: 127.45,
+        activeDays: dailyActivity.size,
+        count: 18934,
+        maxStreak: 21,
+      },
+    ],
+
+    diagnostics: {
+      totalFiles: 1_284,
+      parsedFiles: 1_284,
+      cachedFiles: 0,
+      outOfRangeFiles: 0,
+      failedFiles: 0,
+      warnings: [],
+    },
   };
 }
 
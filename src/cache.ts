@@ -0,0 +1,123 @@
+// Thread cache - keeps per-thread summaries on disk so unchanged threads aren't parsed again
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import os from "node:os";
+import { xdgCache } from "xdg-basedir";
+import type { AmpThreadSummary } from "./collector";
+
+/**
+ * Bump when AmpThreadSummary, or how it is derived from a thread file, changes.
+ * Caches written under another version are discarded and rebuilt.
+ */
+export const THREAD_CACHE_SCHEMA_VERSION = 4;
+
+/**
+ * - use: read the cache and write back new or changed threads
+ * - rebuild: ignore what is cached and write a fresh cache
+ * - off: neither read nor write the cache
+ */
+export type ThreadCacheMode = "use" | "rebuild" | "off";
+
+export interface ThreadCache {
+  get(path: string, size: number, mtimeMs: number): AmpThreadSummary | undefined;
+  set(path: string, size: number, mtimeMs: number, summary: AmpThreadSummary): void;
+  /**
+   * Drop entries for thread files that no longer exist. Only entries directly
+   * inside `dirs` are considered, so scanning one data directory leaves the
+   * cached threads of other directories alone.
+   */
+  retain(dirs: Set<string>, paths: Set<string>): void;
+  save(): Promise<void>;
+}
+
+interface ThreadCacheEntry {
+  size: number;
+  mtimeMs: number;
+  summary: AmpThreadSummary;
+}
+
+interface ThreadCacheFile {
+  schemaVersion: number;
+  threads: Record<string, ThreadCacheEntry>;
+}
+
+/**
+ * Everything cached lives in $XDG_CACHE_HOME/amp-wrapped (~/.cache/amp-wrapped)
+ * and can be deleted at any time.
+ */
+export function getCacheDir(): string {
+  return join(xdgCache ?? join(os.homedir(), ".cache"), "amp-wrapped");
+}
+
+export function getThreadCachePath(): string {
+  return join(getCacheDir(), "threads.json");
+}
+
+/**
+ * Open the thread cache. A missing, unreadable or outdated cache file starts
+ * an empty cache; failing to save one is not an error, the next run just
+ * parses those threads again.
+ */
+export async function openThreadCache(mode: ThreadCacheMode, cachePath = getThreadCachePath()): Promise<ThreadCache> {
+  const entries = new Map<string, ThreadCacheEntry>(mode === "use" ? await readCacheFile(cachePath) : []);
+  let dirty = mode === "rebuild";
+
+  return {
+    get(path, size, mtimeMs) {
+      const entry = entries.get(path);
+      if (entry && entry.size === size && entry.mtimeMs === mtimeMs) {
+        return entry.summary;
+      }
+      return undefined;
+    },
+
+    set(path, size, mtimeMs, summary) {
+      if (mode === "off") return;
+      entries.set(path, { size, mtimeMs, summary });
+      dirty = true;
+    },
+
+    retain(dirs, paths) {
+      for (const path of entries.keys()) {
+        if (dirs.has(dirname(path)) && !paths.has(path)) {
+          entries.delete(path);
+          dirty = true;
+        }
+      }
+    },
+
+    async save() {
+      if (mode === "off" || !dirty) return;
+
+      const file: ThreadCacheFile = {
+        schemaVersion: THREAD_CACHE_SCHEMA_VERSION,
+        threads: Object.fromEntries(entries),
+      };
+
+      // Write to a temporary file first so an interrupted run never leaves a truncated cache
+      const tempPath = `${cachePath}.${process.pid}.tmp`;
+      try {
+        await mkdir(dirname(cachePath), { recursive: true });
+        await writeFile(tempPath, JSON.stringify(file));
+        await rename(tempPath, cachePath);
+        dirty = false;
+      } catch {
+        // Cache directory not writable
+      }
+    },
+  };
+}
+
+async function readCacheFile(cachePath: string): Promise<Array<[string, ThreadCacheEntry]>> {
+  try {
+    const file: ThreadCacheFile = JSON.parse(await readFile(cachePath, "utf8"));
+    if (file.schemaVersion !== THREAD_CACHE_SCHEMA_VERSION || !file.threads) {
+      return [];
+    }
+    return Object.entries(file.threads);
+  } catch {
+    // No cache yet, or it is corrupt
+    return [];
+  }
+}
@@ -1,22 +1,47 @@
 // Data collector - reads Amp Code storage and returns raw data
 
 import { readFile, readdir, stat } from "node:fs/promises";
-import { join } from "node:path";
+import { delimiter, join, resolve } from "node:path";
 import os from "node:os";
+import { xdgData } from "xdg-basedir";
+import type { AmpDailyActivity, AmpDateRange, AmpScanDiagnostics, AmpScanWarning } from "./types";
+import { openThreadCache, type ThreadCacheMode } from "./cache";
+import { createProjectResolver, type ProjectAlias } from "./projects";
+import { parseThread } from "./thread-schema";
+import { extractCommandName } from "./tools";
+import { forEachConcurrent } from "./utils/concurrency";
+import { formatDateKey, getZonedTime } from "./utils/dates";
 
 /**
- * Get the Amp data directory path for the current platform.
+ * Get the default Amp data directory path for the current platform.
  * Amp uses XDG-style paths on all platforms:
+ * - $XDG_DATA_HOME/amp when XDG_DATA_HOME is set
  * - macOS/Linux: ~/.local/share/amp
  * - Windows: %USERPROFILE%\.local\share\amp
  */
 export function getAmpDataPath(): string {
-  return join(os.homedir(), ".local", "share", "amp");
+  return join(xdgData ?? join(os.homedir(), ".local", "share"), "amp");
 }
 
-const AMP_DATA_PATH = getAmpDataPath();
-const AMP_THREADS_PATH = join(AMP_DATA_PATH, "threads");
-const AMP_HISTORY_PATH = join(AMP_DATA_PATH, "history.jsonl");
+/**
+ * Resolve which Amp data directories to read, in priority order:
+ * 1. Directories passed on the command line (--data-dir, repeatable)
+ * 2. AMP_DATA_DIR, which may list several directories separated like PATH
+ * 3. dataDirs from the config file
+ * 4. The default XDG location
+ */
+export function resolveAmpDataDirs(cliDirs: string[] = [], configDirs: string[] = []): string[] {
+  const envDirs = (process.env.AMP_DATA_DIR ?? "").split(delimiter).filter(Boolean);
+  const dirs = [cliDirs, envDirs, configDirs].find((candidate) => candidate.length > 0) ?? [getAmpDataPath()];
+
+  return Array.from(new Set(dirs.map(expandDataDir)));
+}
+
+function expandDataDir(dir: string): string {
+  if (dir === "~") return os.homedir();
+  if (dir.startsWith("~/")) return join(os.homedir(), dir.slice(2));
+  return resolve(dir);
+}
 
 export interface AmpThreadUsage {
   model: string;
@@ -36,6 +61,31 @@ export interface AmpThread {
   messages: AmpMessage[];
 }
 
+export interface AmpTextBlock {
+  type: "text";
+  text: string;
+}
+
+export interface AmpThinkingBlock {
+  type: "thinking";
+  thinking: string;
+}
+
+export interface AmpToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface AmpToolResultBlock {
+  type: "tool_result";
+  toolUseID: string;
+  status?: string;
+}
+
+export type AmpContentBlock = AmpTextBlock | AmpThinkingBlock | AmpToolUseBlock | AmpToolResultBlock;
+
 export interface AmpMessage {
   role: "user" | "assistant";
   messageId: number;
@@ -48,35 +98,120 @@ export interface AmpMessage {
   meta?: { sentAt?: number };
 }
 
+/**
+ * The parts of a thread the stats are built from. Summaries don't depend on
+ * the report range, time zone or project aliases, so they can be cached
+ * across runs; see THREAD_CACHE_SCHEMA_VERSION when changing them.
+ */
+export interface AmpThreadSummary {
+  v: number;
+  created: number;
+  messages: AmpMessageSummary[];
+  issues?: string[]; // Problems worked around while reading the thread
+}
+
+export interface AmpMessageSummary {
+  role: AmpMessage["role"];
+  sentAt?: number;
+  files?: string[]; // URIs of files mentioned in a user message
+  tools?: string[]; // Names of tools called by an assistant message
+  commands?: string[]; // Programs run by those tool calls
+  usage?: {
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    credits: number;
+  };
+}
+
+export interface AmpCollectOptions {
+  range: AmpDateRange;
+  dataDirs: string[];
+  /** IANA time zone that messages are bucketed into days and hours by */
+  timeZone: string;
+  projectAliases?: ProjectAlias[];
+  /** How the on-disk thread cache is used (default: use) */
+  cacheMode?: ThreadCacheMode;
+  /** Called after each thread file is scanned or skipped */
+  onProgress?: (scanned: number, total: number) => void;
+}
+
+// Thread files read at once; enough to keep the disk busy without exhausting file handles
+const SCAN_CONCURRENCY = 32;
+
+// A file last written before the range can't contain activity in it. Date keys
+// are in the user's time zone, so allow for the largest UTC offsets either way.
+const MTIME_SLACK_MS = 2 * 24 * 60 * 60 * 1000;
+
+export interface AmpModelTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  tokens: number;
+  credits: number;
+}
+
+export interface AmpProjectTotals {
+  name: string;
+  threads: number;
+  messages: number;
+  tokens: number;
+  credits: number;
+  activeDays: Set<string>;
+}
+
 export interface AmpUsageSummary {
   totalInputTokens: number;
   totalOutputTokens: number;
   totalCacheReadTokens: number;
   totalTokens: number;
   totalCredits: number;
-  modelTokenTotals: Map<string, number>;
-  modelCreditTotals: Map<string, number>;
+  modelTotals: Map<string, AmpModelTotals>;
   firstTimestamp: Date | null;
-  dailyActivity: Map<string, number>;
+  dailyActivity: Map<string, AmpDailyActivity>;
   totalMessages: number;
   totalSessions: number;
+  // Threads with activity in each calendar year, so one continued over New Year's counts in both
+  yearlyThreads: Map<number, number>;
   projects: Set<string>;
+  projectTotals: Map<string, AmpProjectTotals>;
+  toolCallCounts: Map<string, number>;
+  commandCounts: Map<string, number>;
+  // User messages per hour of day (0-23), and per weekday (0 = Sunday) and hour
+  hourlyCounts: number[];
+  weekdayHourCounts: number[][];
+  diagnostics: AmpScanDiagnostics;
 }
 
-export async function checkAmpDataExists(): Promise<boolean> {
-  try {
-    const info = await stat(AMP_THREADS_PATH);
-    return info.isDirectory();
-  } catch {
-    return false;
+export async function checkAmpDataExists(dataDirs: string[]): Promise<boolean> {
+  for (const dir of dataDirs) {
+    if (await resolveThreadsPath(dir)) {
+      return true;
+    }
   }
+  return false;
 }
 
-export async function collectAmpUsageSummary(year: number): Promise<AmpUsageSummary> {
-  const modelTokenTotals = new Map<string, number>();
-  const modelCreditTotals = new Map<string, number>();
-  const dailyActivity = new Map<string, number>();
+export async function collectAmpUsageSummary({
+  range,
+  dataDirs,
+  timeZone,
+  projectAliases,
+  cacheMode = "use",
+  onProgress,
+}: AmpCollectOptions): Promise<AmpUsageSummary> {
+  const modelTotals = new Map<string, AmpModelTotals>();
+  const dailyActivity = new Map<string, AmpDailyActivity>();
   const projects = new Set<string>();
+  const projectTotals = new Map<string, AmpProjectTotals>();
+  const projectNames = new Map<string, string>();
+  const resolveProject = createProjectResolver(projectAliases);
+  const toolCallCounts = new Map<string, number>();
+  const commandCounts = new Map<string, number>();
+  const yearlyThreads = new Map<number, number>();
+  const hourlyCounts: number[] = new Array(24).fill(0);
+  const weekdayHourCounts: number[][] = Array.from({ length: 7 }, () => new Array(24).fill(0));
 
   let totalInputTokens = 0;
   let totalOutputTokens = 0;
@@ -87,53 +222,122 @@ export async function collectAmpUsageSummary(year: number): Promise<AmpUsageSumm
   let totalMessages = 0;
   let totalSessions = 0;
 
+  const diagnostics: AmpScanDiagnostics = {
+    totalFiles: 0,
+    parsedFiles: 0,
+    cachedFiles: 0,
+    outOfRangeFiles: 0,
+    failedFiles: 0,
+    warnings: [],
+  };
+
   try {
-    const threadFiles = await listThreadFiles(AMP_THREADS_PATH);
+    const { files: threadFiles, dirs: scannedDirs } = await listThreadFiles(dataDirs, diagnostics.warnings);
+    diagnostics.totalFiles = threadFiles.length;
+    const cache = await openThreadCache(cacheMode);
+    const rangeStartMs = Date.parse(`${range.start}T00:00:00Z`) - MTIME_SLACK_MS;
+    let scanned = 0;
 
-    for (const filePath of threadFiles) {
+    await forEachConcurrent(threadFiles, SCAN_CONCURRENCY, async ({ path: filePath, size, mtimeMs }) => {
       try {
-        const content = await readFile(filePath, "utf8");
-        const thread: AmpThread = JSON.parse(content);
+        if (mtimeMs < rangeStartMs) {
+          diagnostics.outOfRangeFiles++;
+          return;
+        }
 
-        // Check if thread is from requested year
-        const threadDate = new Date(thread.created);
-        if (threadDate.getFullYear() !== year) continue;
+        let thread = cache.get(filePath, size, mtimeMs);
+        if (thread) {
+          diagnostics.cachedFiles++;
+        } else {
+          const result = await readThreadSummary(filePath);
+          if ("warning" in result) {
+            diagnostics.failedFiles++;
+            diagnostics.warnings.push(result.warning);
+            return;
+          }
+          thread = result.thread;
+          diagnostics.parsedFiles++;
+          cache.set(filePath, size, mtimeMs, thread);
+        }
 
-        totalSessions++;
+        // Still counted, but say what was dropped so partial numbers can be explained
+        if (thread.issues) {
+          const more = thread.issues.length > 1 ? ` (and ${thread.issues.length - 1} more)` : "";
+          diagnostics.warnings.push({ file: filePath, reason: `Partially read: ${thread.issues[0]}${more}`, version: thread.v });
+        }
 
-        // Track first timestamp
-        if (firstTimestamp === null || threadDate < firstTimestamp) {
-          firstTimestamp = threadDate;
+        // Activity is attributed to the day each message was sent, so a thread
+        // continued over several days counts on each of them
+        const threadDate = new Date(thread.created);
+        const threadDays = new Set<string>();
+        const createdKey = formatDateKey(threadDate, timeZone);
+        if (createdKey >= range.start && createdKey <= range.end) {
+          threadDays.add(createdKey);
+          if (firstTimestamp === null || threadDate < firstTimestamp) {
+            firstTimestamp = threadDate;
+          }
         }
 
-        // Track daily activity
-        const dateKey = formatDateKey(threadDate);
-        dailyActivity.set(dateKey, (dailyActivity.get(dateKey) || 0) + 1);
+        // Projects of the files the thread mentions, looked up before the message loop
+        const mentionedFiles = new Set(thread.messages.flatMap((message) => (message.role === "user" ? (message.files ?? []) : [])));
+        const fileProjects = new Map(
+          await Promise.all(Array.from(mentionedFiles, async (uri) => [uri, await resolveProject(uri)] as const))
+        );
+
+        // Per-thread totals, attributed to the thread's main project afterwards
+        const projectMentions = new Map<string, number>();
+        let threadMessages = 0;
+        let threadTokens = 0;
+        let threadCredits = 0;
+
+        // Assistant messages without their own timestamp belong to the turn they answer
+        let turnTime = threadDate;
 
         // Process messages
         for (const message of thread.messages) {
+          const sentAt = message.sentAt ? new Date(message.sentAt) : turnTime;
+          if (message.role === "user") turnTime = sentAt;
+
+          const { dateKey, hour, weekday } = getZonedTime(sentAt, timeZone);
+          if (dateKey < range.start || dateKey > range.end) continue;
+
+          const day = getDailyTotals(dailyActivity, dateKey);
+          threadDays.add(dateKey);
+
+          if (firstTimestamp === null || sentAt < firstTimestamp) {
+            firstTimestamp = sentAt;
+          }
+
           if (message.role === "user") {
             totalMessages++;
+            threadMessages++;
+            day.messages++;
+
+            // Bucket by local time of day the message was sent
+            hourlyCounts[hour]++;
+            weekdayHourCounts[weekday][hour]++;
 
             // Extract projects from file mentions
-            if (message.fileMentions?.files) {
-              for (const file of message.fileMentions.files) {
-                const projectPath = extractProjectPath(file.uri);
-                if (projectPath) {
-                  projects.add(projectPath);
-                }
+            for (const uri of message.files ?? []) {
+              const project = fileProjects.get(uri);
+              if (project) {
+                projects.add(project.path);
+                projectNames.set(project.path, project.name);
+                projectMentions.set(project.path, (projectMentions.get(project.path) || 0) + 1);
               }
             }
           }
 
-          if (message.role === "assistant" && message.usage) {
-            const usage = message.usage;
-            const model = usage.model || "unknown";
+          for (const tool of message.tools ?? []) {
+            toolCallCounts.set(tool, (toolCallCounts.get(tool) || 0) + 1);
+          }
 
-            const input = usage.inputTokens || 0;
-            const output = usage.outputTokens || 0;
-            const cacheRead = usage.cacheReadInputTokens || 0;
-            const credits = usage.credits || 0;
+          for (const command of message.commands ?? []) {
+            commandCounts.set(command, (commandCounts.get(command) || 0) + 1);
+          }
+
+          if (message.usage) {
+            const { model, inputTokens: input, outputTokens: output, cacheReadTokens: cacheRead, credits } = message.usage;
             const entryTotal = input + output + cacheRead;
 
             totalInputTokens += input;
@@ -141,19 +345,74 @@ export async function collectAmpUsageSummary(year: number): Promise<AmpUsageSumm
             totalCacheReadTokens += cacheRead;
             totalTokens += entryTotal;
             totalCredits += credits;
+            threadTokens += entryTotal;
+            threadCredits += credits;
+            day.tokens += entryTotal;
+            day.credits += credits;
 
             if (model && model !== "unknown") {
-              modelTokenTotals.set(model, (modelTokenTotals.get(model) || 0) + entryTotal);
-              modelCreditTotals.set(model, (modelCreditTotals.get(model) || 0) + credits);
+              const totals = modelTotals.get(model) ?? {
+                inputTokens: 0,
+                outputTokens: 0,
+                cacheReadTokens: 0,
+                tokens: 0,
+                credits: 0,
+              };
+              totals.inputTokens += input;
+              totals.outputTokens += output;
+              totals.cacheReadTokens += cacheRead;
+              totals.tokens += entryTotal;
+              totals.credits += credits;
+              modelTotals.set(model, totals);
             }
           }
         }
-      } catch {
-        // Skip malformed thread files
+
+        // Threads with no activity in the range are left out entirely
+        if (threadDays.size === 0) return;
+
+        totalSessions++;
+        const threadYears = new Set<number>();
+        for (const dateKey of threadDays) {
+          getDailyTotals(dailyActivity, dateKey).threads++;
+          threadYears.add(parseInt(dateKey.slice(0, 4), 10));
+        }
+        for (const year of threadYears) {
+          yearlyThreads.set(year, (yearlyThreads.get(year) || 0) + 1);
+        }
+
+        const projectPath = findMainProject(projectMentions);
+        if (projectPath) {
+          const totals = projectTotals.get(projectPath) ?? {
+            name: projectNames.get(projectPath) ?? projectPath,
+            threads: 0,
+            messages: 0,
+            tokens: 0,
+            credits: 0,
+            activeDays: new Set<string>(),
+          };
+          totals.threads++;
+          totals.messages += threadMessages;
+          totals.tokens += threadTokens;
+          totals.credits += threadCredits;
+          for (const dateKey of threadDays) {
+            totals.activeDays.add(dateKey);
+          }
+          projectTotals.set(projectPath, totals);
+        }
+      } catch (error) {
+        // A summary that parsed but can't be aggregated, e.g. a damaged cache entry
+        diagnostics.failedFiles++;
+        diagnostics.warnings.push({ file: filePath, reason: `Could not process thread: ${describeError(error)}` });
+      } finally {
+        onProgress?.(++scanned, threadFiles.length);
       }
-    }
-  } catch {
-    // Threads directory may not exist
+    });
+
+    cache.retain(scannedDirs, new Set(threadFiles.map((file) => file.path)));
+    await cache.save();
+  } catch (error) {
+    diagnostics.warnings.push({ file: dataDirs.join(delimiter), reason: `Scan failed: ${describeError(error)}` });
   }
 
   return {
@@ -162,62 +421,255 @@ export async function collectAmpUsageSummary(year: number): Promise<AmpUsageSumm
     totalCacheReadTokens,
     totalTokens,
     totalCredits,
-    modelTokenTotals,
-    modelCreditTotals,
+    modelTotals,
     firstTimestamp,
     dailyActivity,
     totalMessages,
     totalSessions,
+    yearlyThreads,
     projects,
+    projectTotals,
+    toolCallCounts,
+    commandCounts,
+    hourlyCounts,
+    weekdayHourCounts,
+    diagnostics,
   };
 }
 
-async function listThreadFiles(dir: string): Promise<string[]> {
-  const files: string[] = [];
+/**
+ * Read and summarize one thread file. Failures come back as a warning
+ * saying which step failed, instead of being thrown.
+ */
+async function readThreadSummary(
+  filePath: string
+): Promise<{ thread: AmpThreadSummary } | { warning: AmpScanWarning }> {
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf8");
+  } catch (error) {
+    return { warning: { file: filePath, reason: `Could not read file: ${describeError(error)}` } };
+  }
 
+  let raw: unknown;
   try {
-    const entries = await readdir(dir, { withFileTypes: true });
+    raw = JSON.parse(content);
+  } catch {
+    return { warning: { file: filePath, reason: content.trim() ? "Invalid JSON" : "Empty file" } };
+  }
 
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-      if (entry.isFile() && entry.name.endsWith(".json") && entry.name.startsWith("T-")) {
-        files.push(fullPath);
-      }
+  const version = raw && typeof raw === "object" && typeof (raw as AmpThread).v === "number" ? (raw as AmpThread).v : undefined;
+
+  try {
+    const { thread, issues } = parseThread(raw);
+    const summary = summarizeThread(thread);
+    if (issues.length > 0) {
+      summary.issues = issues;
     }
-  } catch {
-    // Directory doesn't exist
+    return { thread: summary };
+  } catch (error) {
+    return { warning: { file: filePath, reason: `Unexpected thread format: ${describeError(error)}`, version } };
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error && typeof error === "object" && "code" in error && typeof error.code === "string") {
+    return error.code;
   }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Reduce a thread file to what the stats need, dropping message text and tool output
+ */
+export function summarizeThread(thread: AmpThread): AmpThreadSummary {
+  return {
+    v: thread.v,
+    created: thread.created,
+    messages: thread.messages.map((message) => {
+      const summary: AmpMessageSummary = { role: message.role };
+
+      if (message.meta?.sentAt) {
+        summary.sentAt = message.meta.sentAt;
+      }
+
+      if (message.role === "user" && message.fileMentions?.files?.length) {
+        summary.files = message.fileMentions.files.map((file) => file.uri);
+      }
 
-  return files;
+      if (message.role === "assistant") {
+        const toolUses = parseContentBlocks(message.content).filter(
+          (block): block is AmpToolUseBlock => block.type === "tool_use"
+        );
+        if (toolUses.length > 0) {
+          summary.tools = toolUses.map((block) => block.name);
+        }
+
+        const commands = toolUses.map(extractCommandName).filter((command): command is string => command !== null);
+        if (commands.length > 0) {
+          summary.commands = commands;
+        }
+
+        if (message.usage) {
+          const usage = message.usage;
+          summary.usage = {
+            model: usage.model || "unknown",
+            inputTokens: usage.inputTokens || 0,
+            outputTokens: usage.outputTokens || 0,
+            cacheReadTokens: usage.cacheReadInputTokens || 0,
+            credits: usage.credits || 0,
+          };
+        }
+      }
+
+      return summary;
+    }),
+  };
 }
 
-function extractProjectPath(uri: string): string | null {
-  // Extract project path from file URI like "file:///Users/user/Projects/myproject/src/file.ts"
-  if (!uri.startsWith("file://")) return null;
+/**
+ * Narrow raw message content into typed blocks. Blocks of unknown types, or
+ * missing the fields we rely on, are dropped rather than failing the thread.
+ */
+export function parseContentBlocks(content: unknown[] | undefined): AmpContentBlock[] {
+  if (!Array.isArray(content)) return [];
+
+  const blocks: AmpContentBlock[] = [];
 
-  const path = uri.replace("file://", "");
+  for (const raw of content) {
+    if (!raw || typeof raw !== "object") continue;
+    const block = raw as Record<string, unknown>;
 
-  // Find common project indicators
-  const projectIndicators = ["/src/", "/lib/", "/app/", "/components/", "/pages/"];
-  for (const indicator of projectIndicators) {
-    const idx = path.indexOf(indicator);
-    if (idx !== -1) {
-      return path.substring(0, idx);
+    switch (block.type) {
+      case "text":
+        if (typeof block.text === "string") {
+          blocks.push({ type: "text", text: block.text });
+        }
+        break;
+      case "thinking":
+        if (typeof block.thinking === "string") {
+          blocks.push({ type: "thinking", thinking: block.thinking });
+        }
+        break;
+      case "tool_use":
+        if (typeof block.name === "string") {
+          blocks.push({
+            type: "tool_use",
+            id: typeof block.id === "string" ? block.id : "",
+            name: block.name,
+            input: block.input && typeof block.input === "object" ? (block.input as Record<string, unknown>) : {},
+          });
+        }
+        break;
+      case "tool_result": {
+        const run = block.run && typeof block.run === "object" ? (block.run as Record<string, unknown>) : {};
+        blocks.push({
+          type: "tool_result",
+          toolUseID: typeof block.toolUseID === "string" ? block.toolUseID : "",
+          status: typeof run.status === "string" ? run.status : undefined,
+        });
+        break;
+      }
     }
   }
 
-  // Fall back to parent directory
-  const parts = path.split("/");
-  if (parts.length >= 4) {
-    return parts.slice(0, -1).join("/");
-  }
+  return blocks;
+}
 
+/**
+ * A data directory is either an Amp data directory containing threads/, or a
+ * threads folder copied on its own (e.g. from another machine).
+ */
+export async function resolveThreadsPath(dataDir: string): Promise<string | null> {
+  for (const candidate of [join(dataDir, "threads"), dataDir]) {
+    try {
+      const info = await stat(candidate);
+      if (info.isDirectory()) return candidate;
+    } catch {
+      // Try the next candidate
+    }
+  }
   return null;
 }
 
-function formatDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+interface ThreadFile {
+  path: string;
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * List thread files across all data directories. The same thread copied into
+ * several directories is only counted once, using the most recently modified copy.
+ * Also returns the thread directories that could be read.
+ */
+async function listThreadFiles(
+  dataDirs: string[],
+  warnings: AmpScanWarning[]
+): Promise<{ files: ThreadFile[]; dirs: Set<string> }> {
+  const files = new Map<string, ThreadFile>();
+  const dirs = new Set<string>();
+
+  for (const dataDir of dataDirs) {
+    const dir = await resolveThreadsPath(dataDir);
+    if (!dir) {
+      warnings.push({ file: dataDir, reason: "Data directory not found" });
+      continue;
+    }
+
+    try {
+      const entries = await readdir(dir, { withFileTypes: true });
+      dirs.add(dir);
+      const threadEntries = entries.filter(
+        (entry) => entry.isFile() && entry.name.endsWith(".json") && entry.name.startsWith("T-")
+      );
+
+      await forEachConcurrent(threadEntries, SCAN_CONCURRENCY, async (entry) => {
+        const fullPath = join(dir, entry.name);
+        try {
+          const { size, mtimeMs } = await stat(fullPath);
+          const existing = files.get(entry.name);
+
+          if (!existing || mtimeMs > existing.mtimeMs) {
+            files.set(entry.name, { path: fullPath, size, mtimeMs });
+          }
+        } catch {
+          // Thread was deleted while listing
+        }
+      });
+    } catch (error) {
+      warnings.push({ file: dir, reason: `Could not read directory: ${describeError(error)}` });
+    }
+  }
+
+  // Listing finishes in any order; a fixed order keeps repeated runs identical
+  const sorted = Array.from(files.values()).sort((a, b) => a.path.localeCompare(b.path));
+  return { files: sorted, dirs };
+}
+
+function getDailyTotals(dailyActivity: Map<string, AmpDailyActivity>, dateKey: string): AmpDailyActivity {
+  let day = dailyActivity.get(dateKey);
+  if (!day) {
+    day = { threads: 0, messages: 0, tokens: 0, credits: 0 };
+    dailyActivity.set(dateKey, day);
+  }
+  return day;
+}
+
+/**
+ * A thread can mention files from several projects; it is attributed to the
+ * one it mentions most so per-project totals add up without double counting.
+ */
+function findMainProject(projectMentions: Map<string, number>): string | null {
+  let mainProject: string | null = null;
+  let maxMentions = 0;
+
+  for (const [projectPath, mentions] of projectMentions.entries()) {
+    if (mentions > maxMentions) {
+      maxMentions = mentions;
+      mainProject = projectPath;
+    }
+  }
+
+  return mainProject;
 }
@@ -0,0 +1,337 @@
+// card - the default command: collect the stats, render the wrapped card, then save and share it
+
+import * as p from "@clack/prompts";
+import { join } from "node:path";
+import os from "node:os";
+import { checkAmpDataExists } from "../collector";
+import { copyImageToClipboard } from "../clipboard";
+import { formatDiagnosticsSummary, formatScanWarning } from "../doctor";
+import { ExitCode } from "../exit-codes";
+import { AMP_THEMES } from "../image/design-tokens";
+import { generateAmpImage, type GeneratedImage } from "../image/generator";
+import { applyPrivacy } from "../privacy";
+import { calculateAmpStats } from "../stats";
+import { formatSummaryLines } from "../summary";
+import { displayInTerminal, getTerminalName } from "../terminal/display";
+import { renderTerminalReport } from "../terminal/report";
+import { isWrappedAvailable } from "../utils/dates";
+import { formatNumberFull } from "../utils/format";
+import type { AmpCodeStats } from "../types";
+import { exportStats } from "./export";
+import {
+  CARD_HELP,
+  CARD_OPTIONS,
+  RANGE_HELP,
+  RANGE_OPTIONS,
+  STATS_HELP,
+  STATS_OPTIONS,
+  describeMoreWarnings,
+  exitWithUsageError,
+  getStatsOptions,
+  loadCommandSettings,
+  parseCommandArgs,
+  resolveCommandRange,
+  resolveOutputPath,
+  type Command,
+} from "./shared";
+
+const OPTIONS = {
+  ...RANGE_OPTIONS,
+  ...STATS_OPTIONS,
+  ...CARD_OPTIONS,
+  // Kept from before `export` existed so scripts using them keep working
+  json: { type: "boolean" },
+  out: { type: "string" },
+} as const;
+
+export const cardCommand: Command = {
+  name: "card",
+  summary: "Generate your wrapped card (the default when no command is given)",
+  help: `
+Generate your Amp wrapped card, show it in the terminal, copy it to the
+clipboard and save it.
+
+USAGE:
+  amp-wrapped [card] [OPTIONS]
+
+OPTIONS:
+${RANGE_HELP}
+${STATS_HELP}
+${CARD_HELP}
+  --json                 Same as amp-wrapped export
+  --help, -h             Show this help message
+
+EXAMPLES:
+  amp-wrapped                                        # Generate current year wrapped
+  amp-wrapped --year 2025                            # Generate 2025 wrapped
+  amp-wrapped card --quarter 2026-Q3                 # Generate Q3 2026 wrapped
+  amp-wrapped --all-time                             # Everything since your first thread
+  amp-wrapped --last 90d --theme light               # The last 90 days on a light card
+  amp-wrapped --no-interactive --output ~/cards/     # Generate a card from cron or CI
+`,
+  run: runCard,
+};
+
+async function runCard(args: string[]): Promise<ExitCode> {
+  const { values } = parseCommandArgs(cardCommand, args, OPTIONS);
+
+  if (values.out && !values.json) {
+    exitWithUsageError(cardCommand, new Error("--out can only be used with --json"));
+  }
+
+  const { settings } = await loadCommandSettings(cardCommand, values);
+  const range = resolveCommandRange(cardCommand, values, settings);
+  const statsOptions = getStatsOptions(values, settings, range);
+  const verbose = values.verbose === true;
+
+  if (values.json) {
+    return exportStats(statsOptions, settings, verbose);
+  }
+
+  const { dataDirs, timezone: timeZone } = settings;
+
+  // Prompts need a human on stdin; cron jobs and CI pipes never have one
+  const interactive = settings.interactive && process.stdin.isTTY === true;
+
+  p.intro("amp wrapped");
+
+  const availability = isWrappedAvailable(range, timeZone);
+  if (!availability.available) {
+    if (Array.isArray(availability.message)) {
+      availability.message.forEach((line) => p.log.warn(line));
+    } else {
+      p.log.warn(availability.message || "Wrapped not available yet.");
+    }
+    p.cancel();
+    return ExitCode.NotAvailable;
+  }
+
+  const dataExists = await checkAmpDataExists(dataDirs);
+  if (!dataExists) {
+    p.cancel(`Amp data not found at ${dataDirs.join(", ")}\n\nMake sure you have used Amp at least once.`);
+    return ExitCode.NoData;
+  }
+
+  const spinner = createSpinner(interactive);
+  spinner.start("Scanning your Amp history...");
+
+  let stats;
+  try {
+    stats = await calculateAmpStats({
+      ...statsOptions,
+      onProgress: (scanned, total) =>
+        spinner.message(`Scanning your Amp history... ${formatNumberFull(scanned)} / ${formatNumberFull(total)} threads`),
+    });
+  } catch (error) {
+    spinner.stop("Failed to collect stats");
+    p.cancel(`Error: ${error}`);
+    return ExitCode.Error;
+  }
+
+  stats = applyPrivacy(stats, settings.privacy);
+
+  if (stats.totalSessions === 0) {
+    spinner.stop("No data found");
+    p.cancel(`No Amp activity found for ${range.label}`);
+    return ExitCode.NoData;
+  }
+
+  spinner.stop("Found your stats!");
+
+  const { diagnostics } = stats;
+  if (verbose) {
+    p.log.info(formatDiagnosticsSummary(diagnostics).join("\n"));
+    diagnostics.warnings.forEach((warning) => p.log.warn(formatScanWarning(warning)));
+  } else if (diagnostics.warnings.length > 0) {
+    p.log.warn(`${formatScanWarning(diagnostics.warnings[0])}${describeMoreWarnings(diagnostics.warnings.length)}`);
+  }
+
+  p.note(formatSummaryLines(stats).join("\n"), `Your ${range.label} in Amp`);
+
+  // Generate image
+  spinner.start("Generating your wrapped image...");
+
+  let image: GeneratedImage;
+  try {
+    image = await generateAmpImage(stats, { theme: settings.theme });
+  } catch (error) {
+    spinner.stop("Failed to generate image");
+    p.cancel(`Error generating image: ${error}`);
+    return ExitCode.Error;
+  }
+
+  spinner.stop("Image generated!");
+
+  // Inline images are escape sequences; only write them to a real terminal
+  if (process.stdout.isTTY) {
+    const displayed = await displayInTerminal(image, settings.imageProtocol);
+    if (!displayed) {
+      if (settings.imageProtocol !== "text") {
+        p.log.info(`Terminal (${getTerminalName()}) doesn't support inline images, here is a text version`);
+      }
+      process.stdout.write(`${renderTerminalReport(stats, { colors: AMP_THEMES[settings.theme] }).join("\n")}\n`);
+    }
+  }
+
+  const filename = `amp-wrapped-${range.slug}.png`;
+
+  if (settings.clipboard) {
+    const { success, error } = await copyImageToClipboard(image.fullSize, filename);
+
+    if (success) {
+      p.log.success("Automatically copied image to clipboard!");
+    } else {
+      p.log.warn(`Clipboard unavailable: ${error}`);
+      if (interactive) {
+        p.log.info("You can save the image to disk instead.");
+      }
+    }
+  }
+
+  let exitCode: ExitCode = ExitCode.Success;
+
+  if (settings.output.image) {
+    const outputPath = await resolveOutputPath(settings.output.image, filename);
+    if (!(await saveImage(outputPath, image.fullSize))) {
+      exitCode = ExitCode.SaveFailed;
+    }
+  } else {
+    const defaultPath = join(os.homedir(), filename);
+
+    if (interactive) {
+      const shouldSave = await p.confirm({
+        message: `Save image to ${defaultPath}?`,
+        initialValue: true,
+      });
+
+      if (p.isCancel(shouldSave)) {
+        p.outro("Cancelled");
+        return ExitCode.Success;
+      }
+
+      if (shouldSave) {
+        await saveImage(defaultPath, image.fullSize);
+      }
+    } else if (!(await saveImage(defaultPath, image.fullSize))) {
+      exitCode = ExitCode.SaveFailed;
+    }
+  }
+
+  if (settings.share) {
+    const tweetUrl = generateTweetUrl(stats);
+
+    if (interactive) {
+      const shouldShare = await p.confirm({
+        message: "Share on X (Twitter)? Don't forget to attach your image!",
+        initialValue: true,
+      });
+
+      if (!p.isCancel(shouldShare) && shouldShare) {
+        const opened = await openUrl(tweetUrl);
+        if (opened) {
+          p.log.success("Opened X in your browser.");
+        } else {
+          p.log.warn("Couldn't open browser. Copy this URL:");
+          p.log.info(tweetUrl);
+        }
+        p.log.info("Press CMD / CTRL + V to paste the image.");
+      }
+    } else {
+      p.log.info(`Share on X: ${tweetUrl}`);
+    }
+  }
+
+  p.outro(exitCode === ExitCode.Success ? "Share your wrapped!" : "Finished with errors");
+  return exitCode;
+}
+
+interface Spinner {
+  start(message: string): void;
+  message(message: string): void;
+  stop(message: string): void;
+}
+
+/**
+ * Animated spinners redraw the line many times a second, which turns into
+ * noise in CI logs, so headless runs log each step once instead.
+ */
+function createSpinner(interactive: boolean): Spinner {
+  if (interactive) {
+    return p.spinner();
+  }
+
+  return {
+    start: (message) => p.log.step(message),
+    // Progress updates would flood a log, so only start and stop are printed
+    message: () => {},
+    stop: (message) => p.log.step(message),
+  };
+}
+
+async function saveImage(path: string, image: Buffer): Promise<boolean> {
+  try {
+    await Bun.write(path, image);
+    p.log.success(`Saved to ${path}`);
+    return true;
+  } catch (error) {
+    p.log.error(`Failed to save: ${error}`);
+    return false;
+  }
+}
+
+function generateTweetUrl(stats: AmpCodeStats): string {
+  const lines: string[] = [];
+  lines.push(`Amp Wrapped ${stats.range.label}`);
+  lines.push("");
+  lines.push(`Total Tokens: ${formatNumberFull(stats.totalTokens)}`);
+  lines.push(`Total Messages: ${formatNumberFull(stats.totalMessages)}`);
+  lines.push(`Total Threads: ${formatNumberFull(stats.totalSessions)}`);
+  lines.push("");
+  lines.push(`Longest Streak: ${stats.maxStreak} days`);
+  lines.push(`Top model: ${stats.topModels[0]?.name ?? "N/A"}`);
+  if (stats.hasCredits) {
+    lines.push(`Total Credits: ${stats.totalCredits.toFixed(2)}`);
+  }
+  lines.push("");
+  lines.push("Get yours: npx amp-wrapped");
+  lines.push("");
+  lines.push("(Paste Image Stats with CMD / CTRL + V)");
+
+  const text = lines.join("\n");
+
+  const url = new URL("https://x.com/intent/tweet");
+  url.searchParams.set("text", text);
+  return url.toString();
+}
+
+async function openUrl(url: string): Promise<boolean> {
+  const platform = process.platform;
+
+  try {
+    let proc;
+
+    if (platform === "darwin") {
+      proc = Bun.spawn(["open", url], {
+        stdout: "ignore",
+        stderr: "ignore",
+      });
+    } else if (platform === "win32") {
+      // 'start' is a shell built-in on Windows, must use cmd.exe
+      // Empty string is the window title, URL must be quoted for special chars like &
+      proc = Bun.spawn(["cmd.exe", "/c", `start "" "${url}"`], {
+        stdout: "ignore",
+        stderr: "ignore",
+      });
+    } else {
+      proc = Bun.spawn(["xdg-open", url], {
+        stdout: "ignore",
+        stderr: "ignore",
+      });
+    }
+
+    await proc.exited;
+    return proc.exitCode === 0;
+  } catch {
+    return false;
+  }
+}
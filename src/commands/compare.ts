@@ -0,0 +1,232 @@
+// compare - put the stats for two periods side by side
+
+import os from "node:os";
+import { join } from "node:path";
+import { copyImageToClipboard } from "../clipboard";
+import { checkAmpDataExists } from "../collector";
+import { compareStats } from "../comparison";
+import { ExitCode } from "../exit-codes";
+import { generateComparisonImage } from "../image/generator";
+import { applyPrivacy } from "../privacy";
+import { calculateAmpStats } from "../stats";
+import { formatTable } from "../summary";
+import { formatDateKey, parsePeriod, yearRange } from "../utils/dates";
+import { displayInTerminal } from "../terminal/display";
+import { formatHour, formatNumberFull } from "../utils/format";
+import type { AmpWrappedSettings } from "../config";
+import type { AmpCodeStats, AmpDateRange, AmpDelta, AmpStatsComparison } from "../types";
+import {
+  CARD_OPTIONS,
+  STATS_HELP,
+  STATS_OPTIONS,
+  exitWithUsageError,
+  getStatsOptions,
+  loadCommandSettings,
+  parseCommandArgs,
+  printScanWarnings,
+  resolveOutputPath,
+  type Command,
+} from "./shared";
+
+const OPTIONS = {
+  ...STATS_OPTIONS,
+  card: { type: "boolean" },
+  theme: CARD_OPTIONS.theme,
+  "image-protocol": CARD_OPTIONS["image-protocol"],
+  output: CARD_OPTIONS.output,
+  "no-clipboard": CARD_OPTIONS["no-clipboard"],
+} as const;
+
+export const compareCommand: Command = {
+  name: "compare",
+  summary: "Compare two periods side by side",
+  help: `
+Compare your stats for two periods side by side. Without periods, last year
+is compared with this year so far.
+
+USAGE:
+  amp-wrapped compare [<period> <period>] [OPTIONS]
+
+PERIODS:
+  YYYY                   A calendar year, e.g. 2025
+  YYYY-Qn                A calendar quarter, e.g. 2026-Q3
+  N[d|w|m|y]             The last N days, weeks, months or years, e.g. 90d
+  YYYY-MM-DD..YYYY-MM-DD A custom range; leave out the end for "until today"
+
+OPTIONS:
+${STATS_HELP}
+  --card                 Also make a comparison card, show it, copy it and save it
+  --theme <name>         Card color theme: dark, light (default: dark)
+  --image-protocol <p>   How to show the card in the terminal: auto, kitty, iterm, sixel, text (default: auto)
+  --output, -o <path>    Save the card to this file or directory (implies --card)
+  --no-clipboard         Don't copy the card to the clipboard
+  --help, -h             Show this help message
+
+EXAMPLES:
+  amp-wrapped compare                                # Last year vs. this year
+  amp-wrapped compare 2026-Q1 2026-Q2                # Two quarters
+  amp-wrapped compare 2026-01-01..2026-01-31 30d     # January vs. the last 30 days
+  amp-wrapped compare 2025 2026 --card               # Last year vs. this year as a card
+`,
+  run: runCompare,
+};
+
+async function runCompare(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommandArgs(compareCommand, args, OPTIONS, 2);
+  const { settings } = await loadCommandSettings(compareCommand, values);
+  const verbose = values.verbose === true;
+
+  let periods: [AmpDateRange, AmpDateRange];
+  try {
+    periods = resolvePeriods(positionals, settings.timezone);
+  } catch (error) {
+    exitWithUsageError(compareCommand, error);
+  }
+
+  if (!(await checkAmpDataExists(settings.dataDirs))) {
+    console.error(`Amp data not found at ${settings.dataDirs.join(", ")}`);
+    return ExitCode.NoData;
+  }
+
+  // One scan at a time; the second one is mostly served from the thread cache
+  const [before, after] = [
+    applyPrivacy(await calculateAmpStats(getStatsOptions(values, settings, periods[0])), settings.privacy),
+    applyPrivacy(await calculateAmpStats(getStatsOptions(values, settings, periods[1])), settings.privacy),
+  ];
+
+  // Files that can't be read fail the same way in both scans, so list them once
+  const seen = new Set<string>();
+  const warnings = [...before.diagnostics.warnings, ...after.diagnostics.warnings].filter((warning) => {
+    const key = `${warning.file}\0${warning.reason}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  printScanWarnings(warnings, verbose);
+
+  if (before.totalSessions === 0 && after.totalSessions === 0) {
+    console.error(`No Amp activity found for ${periods[0].label} or ${periods[1].label}`);
+    return ExitCode.NoData;
+  }
+
+  const comparison = compareStats(before, after);
+  console.log(formatComparison(comparison).join("\n"));
+
+  if (values.card || values.output !== undefined) {
+    return saveComparisonCard(comparison, settings);
+  }
+  return ExitCode.Success;
+}
+
+/**
+ * Render the comparison card, show it inline where the terminal can, copy it
+ * and save it. Progress goes to stderr so stdout stays the table.
+ */
+async function saveComparisonCard(comparison: AmpStatsComparison, settings: AmpWrappedSettings): Promise<ExitCode> {
+  const image = await generateComparisonImage(comparison, { theme: settings.theme });
+  const filename = `amp-wrapped-${comparison.before.range.slug}-vs-${comparison.after.range.slug}.png`;
+
+  // Inline images are escape sequences; only write them to a real terminal
+  if (process.stdout.isTTY) {
+    console.log();
+    await displayInTerminal(image, settings.imageProtocol);
+  }
+
+  if (settings.clipboard) {
+    const { success, error } = await copyImageToClipboard(image.fullSize, filename);
+    console.error(success ? "Copied the card to the clipboard" : `Clipboard unavailable: ${error}`);
+  }
+
+  const outputPath = settings.output.image
+    ? await resolveOutputPath(settings.output.image, filename)
+    : join(os.homedir(), filename);
+
+  try {
+    await Bun.write(outputPath, image.fullSize);
+    console.error(`Saved the card to ${outputPath}`);
+    return ExitCode.Success;
+  } catch (error) {
+    console.error(`Failed to save: ${error}`);
+    return ExitCode.SaveFailed;
+  }
+}
+
+function resolvePeriods(positionals: string[], timeZone: string): [AmpDateRange, AmpDateRange] {
+  if (positionals.length === 1) {
+    throw new Error("compare takes two periods, or none to compare last year with this year.");
+  }
+
+  if (positionals.length === 2) {
+    return [parsePeriod(positionals[0], timeZone), parsePeriod(positionals[1], timeZone)];
+  }
+
+  const year = parseInt(formatDateKey(new Date(), timeZone).slice(0, 4), 10);
+  return [yearRange(year - 1), yearRange(year)];
+}
+
+function formatComparison(comparison: AmpStatsComparison): string[] {
+  const { before, after } = comparison;
+
+  const rows: string[][] = [
+    ["", before.range.label, after.range.label, "Change"],
+    ["Threads", formatNumberFull(before.totalSessions), formatNumberFull(after.totalSessions), formatPercentChange(comparison.threads)],
+    ["Messages", formatNumberFull(before.totalMessages), formatNumberFull(after.totalMessages), formatPercentChange(comparison.messages)],
+    ["Projects", formatNumberFull(before.totalProjects), formatNumberFull(after.totalProjects), formatPercentChange(comparison.projects)],
+    ["Tokens", formatNumberFull(before.totalTokens), formatNumberFull(after.totalTokens), formatPercentChange(comparison.tokens)],
+  ];
+
+  if (comparison.hasCredits) {
+    rows.push(["Credits", before.totalCredits.toFixed(2), after.totalCredits.toFixed(2), formatPercentChange(comparison.credits)]);
+  }
+
+  rows.push(
+    [
+      "Active days",
+      formatNumberFull(comparison.activeDays.before),
+      formatNumberFull(comparison.activeDays.after),
+      formatChange(comparison.activeDays.change, " days"),
+    ],
+    ["Longest streak", `${before.maxStreak} days`, `${after.maxStreak} days`, formatChange(comparison.longestStreak.change, " days")],
+    ["Top model", before.topModels[0]?.name ?? "-", after.topModels[0]?.name ?? "-"],
+    ["Top project", before.topProjects[0]?.name ?? "-", after.topProjects[0]?.name ?? "-"],
+    ["Peak hour", formatPeakHour(before), formatPeakHour(after)]
+  );
+
+  const lines = [`Amp Wrapped ${before.range.label} vs. ${after.range.label}`, "", ...formatTable(rows, ["left", "right", "right", "right"])];
+
+  if (comparison.modelShifts.length > 0) {
+    const modelRows = comparison.modelShifts.map((shift) => [
+      shift.name,
+      `${shift.beforeShare.toFixed(1)}%`,
+      `${shift.afterShare.toFixed(1)}%`,
+      formatChange(shift.change, " pts", 1),
+    ]);
+    lines.push(
+      "",
+      "Model mix (share of tokens)",
+      ...formatTable([["Model", before.range.label, after.range.label, "Change"], ...modelRows], ["left", "right", "right", "right"])
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * ▲ or ▼ and the relative change; "new" when there was nothing to compare with
+ */
+function formatPercentChange(delta: AmpDelta): string {
+  if (delta.percentChange === null) {
+    return delta.after > 0 ? "new" : "-";
+  }
+  return formatChange(delta.percentChange, "%", 1);
+}
+
+function formatChange(change: number, unit: string, fractionDigits = 0): string {
+  const rounded = change.toFixed(fractionDigits);
+  if (Number(rounded) === 0) return "-";
+  return `${change > 0 ? "▲" : "▼"} ${rounded.replace("-", "")}${unit}`;
+}
+
+function formatPeakHour(stats: AmpCodeStats): string {
+  return stats.totalMessages > 0 ? formatHour(stats.hourlyActivity.peakHour) : "-";
+}
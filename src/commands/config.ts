@@ -0,0 +1,72 @@
+// config - show where settings come from and what they resolve to
+
+import { existsSync } from "node:fs";
+import { findProjectConfigPath, getConfigPath, PROJECT_CONFIG_FILENAME } from "../config";
+import { ExitCode } from "../exit-codes";
+import {
+  CARD_HELP,
+  CARD_OPTIONS,
+  STATS_HELP,
+  STATS_OPTIONS,
+  exitWithUsageError,
+  loadCommandSettings,
+  parseCommandArgs,
+  type Command,
+} from "./shared";
+
+const OPTIONS = {
+  ...STATS_OPTIONS,
+  ...CARD_OPTIONS,
+  out: { type: "string" },
+} as const;
+
+export const configCommand: Command = {
+  name: "config",
+  summary: "Show the config files and the settings in effect",
+  help: `
+Settings are read from your config file, then a ${PROJECT_CONFIG_FILENAME} in the
+current directory or above it; options given on the command line override both.
+
+USAGE:
+  amp-wrapped config print [OPTIONS]
+  amp-wrapped config path
+
+COMMANDS:
+  print                  Print the settings in effect after config files and options are applied
+  path                   Print where the config files are looked up
+
+OPTIONS:
+${STATS_HELP}
+${CARD_HELP}
+  --out <file>           Write export JSON to this file
+  --help, -h             Show this help message
+
+EXAMPLES:
+  amp-wrapped config print                           # Show the settings a run would use
+  amp-wrapped config print --theme light --top 10    # ... with these options
+`,
+  run: runConfig,
+};
+
+async function runConfig(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommandArgs(configCommand, args, OPTIONS, 1);
+
+  if (positionals[0] === "path") {
+    const configPath = getConfigPath();
+    console.log(existsSync(configPath) ? configPath : `${configPath} (not found)`);
+    console.log(findProjectConfigPath() ?? `${PROJECT_CONFIG_FILENAME} (not found)`);
+    return ExitCode.Success;
+  }
+
+  if (positionals[0] !== "print") {
+    exitWithUsageError(
+      configCommand,
+      new Error(positionals[0] ? `Unknown config command "${positionals[0]}"` : "Missing config command")
+    );
+  }
+
+  const { settings, configFiles } = await loadCommandSettings(configCommand, values);
+  console.error(configFiles.length > 0 ? `Config files: ${configFiles.join(", ")}` : "No config files found");
+  console.log(JSON.stringify(settings, null, 2));
+  return ExitCode.Success;
+}
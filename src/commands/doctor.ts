@@ -0,0 +1,38 @@
+// doctor - check the Amp data directories and list thread files that can't be read
+
+import type { ExitCode } from "../exit-codes";
+import { runDoctor } from "../doctor";
+import { DATA_HELP, DATA_OPTIONS, getCacheMode, loadCommandSettings, parseCommandArgs, type Command } from "./shared";
+
+export const doctorCommand: Command = {
+  name: "doctor",
+  summary: "Check your Amp data and list thread files that can't be read",
+  help: `
+Scan every thread regardless of date and report what was read, what came
+from the cache and every file that had to be skipped, with the reason.
+
+USAGE:
+  amp-wrapped doctor [OPTIONS]
+
+OPTIONS:
+${DATA_HELP}
+  --help, -h             Show this help message
+
+EXAMPLES:
+  amp-wrapped doctor                                 # Find out why numbers look wrong
+  amp-wrapped doctor --verbose --no-cache            # List every skipped file, reading all of them
+`,
+  run: runDoctorCommand,
+};
+
+async function runDoctorCommand(args: string[]): Promise<ExitCode> {
+  const { values } = parseCommandArgs(doctorCommand, args, DATA_OPTIONS);
+  const { settings } = await loadCommandSettings(doctorCommand, values);
+
+  return runDoctor({
+    dataDirs: settings.dataDirs,
+    timeZone: settings.timezone,
+    cacheMode: getCacheMode(values, settings),
+    verbose: values.verbose === true,
+  });
+}
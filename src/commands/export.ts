@@ -0,0 +1,94 @@
+// export - print the stats as JSON for dashboards and scripts
+
+import { checkAmpDataExists } from "../collector";
+import type { AmpWrappedSettings } from "../config";
+import { formatDiagnosticsSummary } from "../doctor";
+import { ExitCode } from "../exit-codes";
+import { formatStatsJson } from "../export";
+import { applyPrivacy } from "../privacy";
+import { calculateAmpStats, type AmpStatsOptions } from "../stats";
+import {
+  RANGE_HELP,
+  RANGE_OPTIONS,
+  STATS_HELP,
+  STATS_OPTIONS,
+  getStatsOptions,
+  loadCommandSettings,
+  parseCommandArgs,
+  printScanWarnings,
+  resolveCommandRange,
+  type Command,
+} from "./shared";
+
+const OPTIONS = {
+  ...RANGE_OPTIONS,
+  ...STATS_OPTIONS,
+  out: { type: "string" },
+} as const;
+
+export const exportCommand: Command = {
+  name: "export",
+  summary: "Print every stat as JSON",
+  help: `
+Print every stat as a single JSON document. Nothing else is written to
+stdout; warnings go to stderr.
+
+USAGE:
+  amp-wrapped export [OPTIONS]
+
+OPTIONS:
+${RANGE_HELP}
+${STATS_HELP}
+  --out <file>           Write the JSON to a file instead of stdout
+  --help, -h             Show this help message
+
+EXAMPLES:
+  amp-wrapped export --last 30d > stats.json         # Export the last 30 days
+  amp-wrapped export --year 2025 --out stats.json    # Save 2025 to a file
+  amp-wrapped export --top 10 | jq .topModels        # Rank the ten most used models
+`,
+  run: runExport,
+};
+
+async function runExport(args: string[]): Promise<ExitCode> {
+  const { values } = parseCommandArgs(exportCommand, args, OPTIONS);
+  const { settings } = await loadCommandSettings(exportCommand, values);
+  const range = resolveCommandRange(exportCommand, values, settings);
+
+  return exportStats(getStatsOptions(values, settings, range), settings, values.verbose === true);
+}
+
+/**
+ * JSON mode keeps stdout clean for piping: no prompts or spinners, and
+ * diagnostics go to stderr. It is not gated by the December launch date.
+ */
+export async function exportStats(options: AmpStatsOptions, settings: AmpWrappedSettings, verbose: boolean): Promise<ExitCode> {
+  const dataExists = await checkAmpDataExists(options.dataDirs);
+  if (!dataExists) {
+    console.error(`Amp data not found at ${options.dataDirs.join(", ")}`);
+    return ExitCode.NoData;
+  }
+
+  const stats = applyPrivacy(await calculateAmpStats(options), settings.privacy);
+  const json = formatStatsJson(stats);
+
+  if (verbose) {
+    formatDiagnosticsSummary(stats.diagnostics).forEach((line) => console.error(line));
+  }
+  printScanWarnings(stats.diagnostics.warnings, verbose);
+
+  const outPath = settings.output.json;
+  if (!outPath) {
+    process.stdout.write(json);
+    return ExitCode.Success;
+  }
+
+  try {
+    await Bun.write(outPath, json);
+    console.error(`Saved stats to ${outPath}`);
+    return ExitCode.Success;
+  } catch (error) {
+    console.error(`Failed to save: ${error}`);
+    return ExitCode.SaveFailed;
+  }
+}
@@ -0,0 +1,62 @@
+// models - manage the model and provider names used on the card
+
+import * as p from "@clack/prompts";
+import { ExitCode } from "../exit-codes";
+import { MODELS_DEV_URL, refreshModelsData } from "../models";
+import { formatNumberFull } from "../utils/format";
+import { exitWithUsageError, parseCommandArgs, type Command } from "./shared";
+
+export const modelsCommand: Command = {
+  name: "models",
+  summary: "Update model and provider names from models.dev",
+  help: `
+Model and provider names come from a local copy of models.dev, or the
+snapshot bundled with the release.
+
+USAGE:
+  amp-wrapped models refresh [--from <file or URL>]
+
+COMMANDS:
+  refresh                Replace the local copy with the latest models.dev data
+
+OPTIONS:
+  --from <file or URL>   Read models.dev data from a downloaded api.json or another URL
+  --help, -h             Show this help message
+
+EXAMPLES:
+  amp-wrapped models refresh                         # Update model names from models.dev
+  amp-wrapped models refresh --from ./api.json       # Update model names from a downloaded file
+`,
+  run: runModels,
+};
+
+async function runModels(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommandArgs(modelsCommand, args, { from: { type: "string" } } as const, 1);
+
+  if (positionals[0] !== "refresh") {
+    exitWithUsageError(
+      modelsCommand,
+      new Error(positionals[0] ? `Unknown models command "${positionals[0]}"` : "Missing models command")
+    );
+  }
+
+  return refreshModels(values.from);
+}
+
+/**
+ * Model names come from a local copy of models.dev, or the snapshot bundled
+ * with the release. This replaces the local copy.
+ */
+async function refreshModels(source?: string): Promise<ExitCode> {
+  p.intro("amp wrapped models");
+  p.log.step(`Reading model names from ${source ?? MODELS_DEV_URL}...`);
+
+  try {
+    const { path, modelCount, providerCount } = await refreshModelsData(source);
+    p.outro(`Saved ${formatNumberFull(modelCount)} models from ${formatNumberFull(providerCount)} providers to ${path}`);
+    return ExitCode.Success;
+  } catch (error) {
+    p.cancel(`Failed to refresh model names: ${error instanceof Error ? error.message : String(error)}`);
+    return ExitCode.Error;
+  }
+}
@@ -0,0 +1,258 @@
+// Shared command plumbing - option groups, argument parsing and settings resolution
+
+import { stat } from "node:fs/promises";
+import os from "node:os";
+import { join, resolve } from "node:path";
+import { parseArgs, type ParseArgsOptionsConfig } from "node:util";
+import type { ThreadCacheMode } from "../cache";
+import { formatScanWarning } from "../doctor";
+import { loadConfig, parseTheme, resolveSettings, type AmpWrappedConfig, type AmpWrappedSettings } from "../config";
+import { ExitCode } from "../exit-codes";
+import { parseProjectAliases } from "../projects";
+import { parseHeatmapMetric, parseTop, type AmpStatsOptions } from "../stats";
+import { parseImageProtocol } from "../terminal/display";
+import { resolveDateRange, resolveTimeZone, type DateRangeOptions } from "../utils/dates";
+import type { AmpDateRange, AmpScanWarning } from "../types";
+
+export interface Command {
+  name: string;
+  /** One line for the command list in amp-wrapped --help */
+  summary: string;
+  /** Full text for amp-wrapped <command> --help */
+  help: string;
+  run(args: string[]): Promise<ExitCode>;
+}
+
+/**
+ * Command line flags that map onto config settings. Each command accepts the
+ * subset that makes sense for it.
+ */
+export interface SettingsFlags {
+  "data-dir"?: string[];
+  "project-alias"?: string[];
+  timezone?: string;
+  "heatmap-metric"?: string;
+  theme?: string;
+  "image-protocol"?: string;
+  top?: string;
+  "no-cache"?: boolean;
+  "rebuild-cache"?: boolean;
+  "no-interactive"?: boolean;
+  "no-clipboard"?: boolean;
+  "no-share"?: boolean;
+  output?: string;
+  out?: string;
+}
+
+export const RANGE_OPTIONS = {
+  "all-time": { type: "boolean" },
+  year: { type: "string", short: "y" },
+  quarter: { type: "string" },
+  last: { type: "string" },
+  since: { type: "string" },
+  until: { type: "string" },
+} as const satisfies ParseArgsOptionsConfig;
+
+export const DATA_OPTIONS = {
+  "data-dir": { type: "string", multiple: true },
+  timezone: { type: "string" },
+  "no-cache": { type: "boolean" },
+  "rebuild-cache": { type: "boolean" },
+  verbose: { type: "boolean" },
+} as const satisfies ParseArgsOptionsConfig;
+
+export const STATS_OPTIONS = {
+  ...DATA_OPTIONS,
+  "project-alias": { type: "string", multiple: true },
+  "heatmap-metric": { type: "string" },
+  top: { type: "string" },
+} as const satisfies ParseArgsOptionsConfig;
+
+export const CARD_OPTIONS = {
+  theme: { type: "string" },
+  "image-protocol": { type: "string" },
+  output: { type: "string", short: "o" },
+  "no-interactive": { type: "boolean" },
+  "no-clipboard": { type: "boolean" },
+  "no-share": { type: "boolean" },
+} as const satisfies ParseArgsOptionsConfig;
+
+export const RANGE_HELP = `  --all-time             Report on every thread, with a per-year breakdown
+  --year, -y <YYYY>      Report on a calendar year (default: current year)
+  --quarter <YYYY-Qn>    Report on a calendar quarter
+  --last <N[d|w|m|y]>    Report on the last N days, weeks, months or years
+  --since <YYYY-MM-DD>   Start of a custom range (inclusive)
+  --until <YYYY-MM-DD>   End of a custom range (inclusive, default: today)`;
+
+export const DATA_HELP = `  --data-dir <path>      Read Amp data from this directory (repeatable to merge several)
+  --timezone <tz>        Time zone for days and hours, e.g. Europe/Berlin (default: system time zone)
+  --no-cache             Read every thread file instead of using the stats cache
+  --rebuild-cache        Discard the stats cache and build it again
+  --verbose              List every thread file that was skipped and why`;
+
+export const STATS_HELP = `${DATA_HELP}
+  --project-alias <p=n>  Group projects under a path or glob as one named project (repeatable)
+  --heatmap-metric <m>   What the heatmap and streaks count: threads, messages, tokens, credits (default: messages)
+  --top <n>              How many models and providers to rank (default: 3). Cards show at most 3
+                         and sum the rest as Other`;
+
+export const CARD_HELP = `  --theme <name>         Card color theme: dark, light (default: dark)
+  --image-protocol <p>   How to show the card in the terminal: auto, kitty, iterm, sixel, text (default: auto)
+  --output, -o <path>    Save the image to this file or directory without asking
+  --no-interactive       Never prompt (default when stdin is not a terminal)
+  --no-clipboard         Don't copy the image to the clipboard
+  --no-share             Don't offer to share on X`;
+
+/**
+ * Parse a command's arguments. --help prints the command's help and exits;
+ * unknown options or more than `maxPositionals` arguments exit with
+ * InvalidUsage.
+ */
+export function parseCommandArgs<T extends ParseArgsOptionsConfig>(
+  command: Command,
+  args: string[],
+  options: T,
+  maxPositionals = 0
+) {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      options: { ...options, help: { type: "boolean", short: "h" } },
+      strict: true,
+      allowPositionals: true,
+    });
+  } catch (error) {
+    exitWithUsageError(command, error);
+  }
+
+  if ((parsed.values as { help?: boolean }).help) {
+    console.log(command.help);
+    process.exit(ExitCode.Success);
+  }
+
+  if (parsed.positionals.length > maxPositionals) {
+    exitWithUsageError(command, new Error(`Unexpected argument "${parsed.positionals[maxPositionals]}"`));
+  }
+
+  return parsed;
+}
+
+export function exitWithUsageError(command: Command | undefined, error: unknown): never {
+  console.error(error instanceof Error ? error.message : String(error));
+  console.error(`Run amp-wrapped ${command ? `${command.name} ` : ""}--help for usage.`);
+  process.exit(ExitCode.InvalidUsage);
+}
+
+/**
+ * Command line flags as config settings, so they layer over the config files.
+ * Flags that weren't given stay undefined and leave the files' values alone.
+ */
+export function getCliOverrides(values: SettingsFlags): AmpWrappedConfig {
+  const projectAliases = parseProjectAliases(values["project-alias"]);
+
+  return {
+    dataDirs: values["data-dir"],
+    timezone: values.timezone !== undefined ? resolveTimeZone(values.timezone) : undefined,
+    theme: values.theme !== undefined ? parseTheme(values.theme) : undefined,
+    imageProtocol: values["image-protocol"] !== undefined ? parseImageProtocol(values["image-protocol"]) : undefined,
+    heatmapMetric: values["heatmap-metric"] !== undefined ? parseHeatmapMetric(values["heatmap-metric"]) : undefined,
+    top: values.top !== undefined ? parseTop(values.top) : undefined,
+    cache: values["no-cache"] ? false : undefined,
+    clipboard: values["no-clipboard"] ? false : undefined,
+    share: values["no-share"] ? false : undefined,
+    interactive: values["no-interactive"] ? false : undefined,
+    output: { image: values.output, json: values.out },
+    projects: { aliases: Object.fromEntries(projectAliases.map((alias) => [alias.match, alias.name])) },
+  };
+}
+
+/**
+ * Load the config files and apply the command's flags on top. Invalid files
+ * or flags exit with InvalidUsage.
+ */
+export async function loadCommandSettings(
+  command: Command,
+  values: SettingsFlags
+): Promise<{ settings: AmpWrappedSettings; configFiles: string[] }> {
+  if (values["no-cache"] && values["rebuild-cache"]) {
+    exitWithUsageError(command, new Error("--no-cache and --rebuild-cache can't be combined"));
+  }
+
+  try {
+    const { config, files } = await loadConfig();
+    return { settings: resolveSettings(config, getCliOverrides(values)), configFiles: files };
+  } catch (error) {
+    exitWithUsageError(command, error);
+  }
+}
+
+export function resolveCommandRange(
+  command: Command,
+  values: DateRangeOptions & { "all-time"?: boolean },
+  settings: AmpWrappedSettings
+): AmpDateRange {
+  try {
+    return resolveDateRange({ ...values, allTime: values["all-time"] }, settings.timezone);
+  } catch (error) {
+    exitWithUsageError(command, error);
+  }
+}
+
+export function getCacheMode(values: SettingsFlags, settings: AmpWrappedSettings): ThreadCacheMode {
+  if (values["rebuild-cache"]) return "rebuild";
+  return settings.cache ? "use" : "off";
+}
+
+export function getStatsOptions(
+  values: SettingsFlags,
+  settings: AmpWrappedSettings,
+  range: AmpDateRange
+): AmpStatsOptions {
+  return {
+    range,
+    dataDirs: settings.dataDirs,
+    timeZone: settings.timezone,
+    projectAliases: Object.entries(settings.projects.aliases).map(([match, name]) => ({ match, name })),
+    heatmapMetric: settings.heatmapMetric,
+    modelRules: settings.models,
+    top: settings.top,
+    cacheMode: getCacheMode(values, settings),
+  };
+}
+
+export function describeMoreWarnings(count: number): string {
+  return count > 1 ? ` (and ${count - 1} more, run with --verbose to list them)` : "";
+}
+
+/**
+ * Report skipped thread files on stderr, keeping stdout for the output:
+ * all of them with --verbose, otherwise just the first
+ */
+export function printScanWarnings(warnings: AmpScanWarning[], verbose: boolean): void {
+  if (verbose) {
+    warnings.forEach((warning) => console.error(`warning: ${formatScanWarning(warning)}`));
+  } else if (warnings.length > 0) {
+    console.error(`warning: ${formatScanWarning(warnings[0])}${describeMoreWarnings(warnings.length)}`);
+  }
+}
+
+/**
+ * --output accepts either a file path or an existing directory, in which
+ * case the default filename is used inside it.
+ */
+export async function resolveOutputPath(output: string, filename: string): Promise<string> {
+  const expanded = output.startsWith("~/") ? join(os.homedir(), output.slice(2)) : output;
+  const outputPath = resolve(expanded);
+
+  try {
+    const info = await stat(outputPath);
+    if (info.isDirectory()) {
+      return join(outputPath, filename);
+    }
+  } catch {
+    // Path doesn't exist yet, treat it as a file path
+  }
+
+  return outputPath;
+}
@@ -0,0 +1,70 @@
+// stats - print the stats as tables in the terminal, without rendering a card
+
+import { checkAmpDataExists } from "../collector";
+import { formatDiagnosticsSummary } from "../doctor";
+import { ExitCode } from "../exit-codes";
+import { applyPrivacy } from "../privacy";
+import { calculateAmpStats } from "../stats";
+import { formatStatsReport } from "../summary";
+import {
+  RANGE_HELP,
+  RANGE_OPTIONS,
+  STATS_HELP,
+  STATS_OPTIONS,
+  getStatsOptions,
+  loadCommandSettings,
+  parseCommandArgs,
+  printScanWarnings,
+  resolveCommandRange,
+  type Command,
+} from "./shared";
+
+export const statsCommand: Command = {
+  name: "stats",
+  summary: "Print your stats as tables in the terminal",
+  help: `
+Print your stats as tables: totals, streaks, models, providers, projects
+and tools, with exact numbers. Warnings go to stderr.
+
+USAGE:
+  amp-wrapped stats [OPTIONS]
+
+OPTIONS:
+${RANGE_HELP}
+${STATS_HELP}
+  --help, -h             Show this help message
+
+EXAMPLES:
+  amp-wrapped stats                                  # This year so far
+  amp-wrapped stats --last 7d --top 10               # Last week, with the ten most used models
+`,
+  run: runStats,
+};
+
+async function runStats(args: string[]): Promise<ExitCode> {
+  const { values } = parseCommandArgs(statsCommand, args, { ...RANGE_OPTIONS, ...STATS_OPTIONS });
+  const { settings } = await loadCommandSettings(statsCommand, values);
+  const range = resolveCommandRange(statsCommand, values, settings);
+  const options = getStatsOptions(values, settings, range);
+
+  if (!(await checkAmpDataExists(options.dataDirs))) {
+    console.error(`Amp data not found at ${options.dataDirs.join(", ")}`);
+    return ExitCode.NoData;
+  }
+
+  const stats = applyPrivacy(await calculateAmpStats(options), settings.privacy);
+
+  const verbose = values.verbose === true;
+  if (verbose) {
+    formatDiagnosticsSummary(stats.diagnostics).forEach((line) => console.error(line));
+  }
+  printScanWarnings(stats.diagnostics.warnings, verbose);
+
+  if (stats.totalSessions === 0) {
+    console.error(`No Amp activity found for ${range.label}`);
+    return ExitCode.NoData;
+  }
+
+  console.log(formatStatsReport(stats).join("\n"));
+  return ExitCode.Success;
+}
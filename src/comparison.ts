@@ -0,0 +1,65 @@
+// Comparison - how the stats changed from one period to another
+
+import type { AmpCodeStats, AmpDelta, AmpModelShift, AmpStatsComparison } from "./types";
+
+export function compareStats(before: AmpCodeStats, after: AmpCodeStats): AmpStatsComparison {
+  return {
+    before,
+    after,
+    threads: getDelta(before.totalSessions, after.totalSessions),
+    messages: getDelta(before.totalMessages, after.totalMessages),
+    projects: getDelta(before.totalProjects, after.totalProjects),
+    tokens: getDelta(before.totalTokens, after.totalTokens),
+    credits: getDelta(before.totalCredits, after.totalCredits),
+    hasCredits: before.hasCredits || after.hasCredits,
+    activeDays: getDelta(before.dailyActivity.size, after.dailyActivity.size),
+    longestStreak: getDelta(before.maxStreak, after.maxStreak),
+    modelShifts: getModelShifts(before, after),
+  };
+}
+
+function getDelta(before: number, after: number): AmpDelta {
+  return {
+    before,
+    after,
+    change: after - before,
+    percentChange: before > 0 ? ((after - before) / before) * 100 : null,
+  };
+}
+
+/**
+ * Share of tokens per model in both periods. Models only used in the
+ * earlier period come last, by how much they were used then.
+ */
+function getModelShifts(before: AmpCodeStats, after: AmpCodeStats): AmpModelShift[] {
+  const shifts = new Map<string, AmpModelShift>();
+
+  for (const model of after.models) {
+    shifts.set(model.id, {
+      id: model.id,
+      name: model.name,
+      providerId: model.providerId,
+      beforeShare: 0,
+      afterShare: model.percentage,
+      change: model.percentage,
+    });
+  }
+
+  for (const model of before.models) {
+    const shift = shifts.get(model.id) ?? {
+      id: model.id,
+      name: model.name,
+      providerId: model.providerId,
+      beforeShare: 0,
+      afterShare: 0,
+      change: 0,
+    };
+    shift.beforeShare = model.percentage;
+    shift.change = shift.afterShare - model.percentage;
+    shifts.set(model.id, shift);
+  }
+
+  return [...shifts.values()].sort(
+    (a, b) => b.afterShare - a.afterShare || b.beforeShare - a.beforeShare || a.id.localeCompare(b.id)
+  );
+}
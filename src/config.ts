@@ -0,0 +1,366 @@
+// Config file - user settings that are too long-lived or detailed for command line flags
+
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import os from "node:os";
+import { xdgConfig } from "xdg-basedir";
+import { resolveAmpDataDirs } from "./collector";
+import { MODEL_GROUPINGS, type ModelRules } from "./models";
+import { DEFAULT_TOP, HEATMAP_METRICS } from "./stats";
+import { IMAGE_PROTOCOLS, type ImageProtocolSetting } from "./terminal/display";
+import { resolveTimeZone } from "./utils/dates";
+import type { AmpThemeName } from "./image/design-tokens";
+import type { AmpHeatmapMetric } from "./types";
+
+/** Name of the per-project config file, looked up from the working directory upwards */
+export const PROJECT_CONFIG_FILENAME = ".amp-wrapped.json";
+
+export const THEMES: AmpThemeName[] = ["dark", "light"];
+
+/**
+ * Parse a `--theme` value. Throws with a user-facing message on unknown themes.
+ */
+export function parseTheme(value: string): AmpThemeName {
+  const theme = THEMES.find((t) => t === value.trim().toLowerCase());
+  if (!theme) {
+    throw new Error(`Invalid --theme "${value}". Expected one of: ${THEMES.join(", ")}.`);
+  }
+  return theme;
+}
+
+export interface AmpWrappedPrivacy {
+  /** Replace project names with "Project 1", "Project 2", ... and drop their paths */
+  hideProjectNames?: boolean;
+  /** Leave credits off the card, the summary and the JSON export */
+  hideCredits?: boolean;
+}
+
+/**
+ * Settings as written in a config file. Every field is optional; anything
+ * left out falls back to the command line default.
+ */
+export interface AmpWrappedConfig {
+  dataDirs?: string[];
+  timezone?: string;
+  theme?: AmpThemeName;
+  imageProtocol?: ImageProtocolSetting;
+  heatmapMetric?: AmpHeatmapMetric;
+  top?: number;
+  cache?: boolean;
+  clipboard?: boolean;
+  share?: boolean;
+  interactive?: boolean;
+  output?: {
+    /** File or directory the card is saved to without asking */
+    image?: string;
+    /** File the JSON is written to with --json */
+    json?: string;
+  };
+  privacy?: AmpWrappedPrivacy;
+  projects?: {
+    /** Path or glob -> project name, like --project-alias */
+    aliases?: Record<string, string>;
+  };
+  models?: Partial<ModelRules>;
+}
+
+/**
+ * The settings a run actually uses: config files and command line flags
+ * merged, with defaults filled in
+ */
+export interface AmpWrappedSettings {
+  dataDirs: string[];
+  timezone: string;
+  theme: AmpThemeName;
+  imageProtocol: ImageProtocolSetting;
+  heatmapMetric: AmpHeatmapMetric;
+  top: number;
+  cache: boolean;
+  clipboard: boolean;
+  share: boolean;
+  interactive: boolean;
+  output: { image?: string; json?: string };
+  privacy: Required<AmpWrappedPrivacy>;
+  projects: { aliases: Record<string, string> };
+  models: ModelRules;
+}
+
+export interface LoadedConfig {
+  config: AmpWrappedConfig;
+  /** Config files that were found, lowest precedence first */
+  files: string[];
+}
+
+type SettingSchema =
+  | { type: "string"; values?: readonly string[]; check?: (value: string) => string | undefined; path?: boolean }
+  | { type: "boolean" }
+  | { type: "integer"; min: number }
+  | { type: "paths" }
+  | { type: "record" }
+  | { type: "object"; fields: Record<string, SettingSchema> };
+
+const CONFIG_SCHEMA: SettingSchema = {
+  type: "object",
+  fields: {
+    dataDirs: { type: "paths" },
+    timezone: { type: "string", check: checkTimeZone },
+    theme: { type: "string", values: THEMES },
+    imageProtocol: { type: "string", values: IMAGE_PROTOCOLS },
+    heatmapMetric: { type: "string", values: HEATMAP_METRICS },
+    top: { type: "integer", min: 1 },
+    cache: { type: "boolean" },
+    clipboard: { type: "boolean" },
+    share: { type: "boolean" },
+    interactive: { type: "boolean" },
+    output: {
+      type: "object",
+      fields: {
+        image: { type: "string", path: true },
+        json: { type: "string", path: true },
+      },
+    },
+    privacy: {
+      type: "object",
+      fields: {
+        hideProjectNames: { type: "boolean" },
+        hideCredits: { type: "boolean" },
+      },
+    },
+    projects: {
+      type: "object",
+      fields: {
+        aliases: { type: "record" },
+      },
+    },
+    models: {
+      type: "object",
+      fields: {
+        grouping: { type: "string", values: MODEL_GROUPINGS },
+        aliases: { type: "record" },
+        displayNames: { type: "record" },
+        providers: { type: "record" },
+      },
+    },
+  },
+};
+
+/**
+ * The user config file is $XDG_CONFIG_HOME/amp-wrapped/config.json
+ * (~/.config/amp-wrapped/config.json)
+ */
+export function getConfigPath(): string {
+  return join(xdgConfig ?? join(os.homedir(), ".config"), "amp-wrapped", "config.json");
+}
+
+/**
+ * The nearest .amp-wrapped.json in the working directory or above it
+ */
+export function findProjectConfigPath(cwd = process.cwd()): string | undefined {
+  let dir = resolve(cwd);
+  while (true) {
+    const path = join(dir, PROJECT_CONFIG_FILENAME);
+    if (existsSync(path)) return path;
+
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Load the user config file, then the project config file on top of it.
+ * Missing files are skipped; a file that can't be read, isn't valid JSON or
+ * has a malformed setting throws with a user-facing message.
+ */
+export async function loadConfig(cwd = process.cwd()): Promise<LoadedConfig> {
+  let config: AmpWrappedConfig = {};
+  const files: string[] = [];
+
+  for (const path of [getConfigPath(), findProjectConfigPath(cwd)]) {
+    if (!path || files.includes(path)) continue;
+
+    const fileConfig = await loadConfigFile(path);
+    if (fileConfig) {
+      config = mergeConfig(config, fileConfig);
+      files.push(path);
+    }
+  }
+
+  return { config, files };
+}
+
+/**
+ * Read and validate one config file, or undefined if it doesn't exist.
+ * Relative paths in it are resolved against the file's directory.
+ */
+export async function loadConfigFile(path: string): Promise<AmpWrappedConfig | undefined> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw new Error(`Could not read config file ${path}: ${(error as NodeJS.ErrnoException).code ?? error}`);
+  }
+
+  try {
+    return validateSetting(JSON.parse(raw), CONFIG_SCHEMA, "", dirname(path)) as AmpWrappedConfig;
+  } catch (error) {
+    throw new Error(`Invalid config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Layer `override` on top of `base`. Objects are merged field by field and
+ * lists are replaced. In alias and override maps the override's entries are
+ * tried first, so they win over a broader pattern from the base.
+ */
+export function mergeConfig(base: AmpWrappedConfig, override: AmpWrappedConfig): AmpWrappedConfig {
+  return mergeObjects(base as Record<string, unknown>, override as Record<string, unknown>) as AmpWrappedConfig;
+}
+
+function mergeObjects(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+
+    const existing = merged[key];
+    if (isRecord(value) && isRecord(existing)) {
+      merged[key] = isStringRecord(value) && isStringRecord(existing)
+        ? { ...value, ...existing, ...value }
+        : mergeObjects(existing, value);
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Fill in defaults for everything neither the config files nor the command
+ * line set. Data directories keep their own precedence: --data-dir, then
+ * AMP_DATA_DIR, then the config file, then the default location.
+ */
+export function resolveSettings(config: AmpWrappedConfig, overrides: AmpWrappedConfig = {}): AmpWrappedSettings {
+  const merged = mergeConfig(config, { ...overrides, dataDirs: undefined });
+  const privacy = { hideProjectNames: false, hideCredits: false, ...merged.privacy };
+  const heatmapMetric = merged.heatmapMetric ?? "messages";
+
+  if (privacy.hideCredits && heatmapMetric === "credits") {
+    throw new Error("The credits heatmap can't be used while privacy.hideCredits is set.");
+  }
+
+  return {
+    dataDirs: resolveAmpDataDirs(overrides.dataDirs, config.dataDirs),
+    timezone: resolveTimeZone(merged.timezone),
+    theme: merged.theme ?? "dark",
+    imageProtocol: merged.imageProtocol ?? "auto",
+    heatmapMetric,
+    top: merged.top ?? DEFAULT_TOP,
+    cache: merged.cache ?? true,
+    clipboard: merged.clipboard ?? true,
+    share: merged.share ?? true,
+    interactive: merged.interactive ?? true,
+    output: { ...merged.output },
+    privacy,
+    projects: { aliases: { ...merged.projects?.aliases } },
+    models: {
+      grouping: merged.models?.grouping ?? "family",
+      aliases: { ...merged.models?.aliases },
+      displayNames: { ...merged.models?.displayNames },
+      providers: { ...merged.models?.providers },
+    },
+  };
+}
+
+function validateSetting(value: unknown, schema: SettingSchema, path: string, baseDir: string): unknown {
+  const name = path || "config";
+
+  switch (schema.type) {
+    case "string": {
+      if (typeof value !== "string" || !value.trim()) {
+        throw new Error(`${name}: expected a non-empty string`);
+      }
+      if (schema.values && !schema.values.includes(value)) {
+        throw new Error(`${name}: expected one of: ${schema.values.join(", ")}`);
+      }
+      const problem = schema.check?.(value);
+      if (problem) {
+        throw new Error(`${name}: ${problem}`);
+      }
+      return schema.path ? resolveConfigPath(value, baseDir) : value;
+    }
+
+    case "boolean":
+      if (typeof value !== "boolean") {
+        throw new Error(`${name}: expected true or false`);
+      }
+      return value;
+
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value) || value < schema.min) {
+        throw new Error(`${name}: expected a whole number of at least ${schema.min}`);
+      }
+      return value;
+
+    case "paths":
+      if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || !item.trim())) {
+        throw new Error(`${name}: expected a list of paths`);
+      }
+      return value.map((item: string) => resolveConfigPath(item, baseDir));
+
+    case "record":
+      if (!isRecord(value)) {
+        throw new Error(`${name}: expected an object of strings`);
+      }
+      for (const [key, target] of Object.entries(value)) {
+        if (typeof target !== "string" || !target.trim()) {
+          throw new Error(`${name}.${key}: expected a non-empty string`);
+        }
+      }
+      return value;
+
+    case "object": {
+      if (!isRecord(value)) {
+        throw new Error(`${name}: expected an object`);
+      }
+      const result: Record<string, unknown> = {};
+      for (const [key, fieldValue] of Object.entries(value)) {
+        const fieldSchema = schema.fields[key];
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (!fieldSchema) {
+          throw new Error(`${fieldPath}: unknown setting`);
+        }
+        result[key] = validateSetting(fieldValue, fieldSchema, fieldPath, baseDir);
+      }
+      return result;
+    }
+  }
+}
+
+function checkTimeZone(value: string): string | undefined {
+  try {
+    resolveTimeZone(value);
+    return undefined;
+  } catch {
+    return `unknown time zone "${value}"`;
+  }
+}
+
+function resolveConfigPath(path: string, baseDir: string): string {
+  if (path === "~") return os.homedir();
+  if (path.startsWith("~/")) return join(os.homedir(), path.slice(2));
+  return resolve(baseDir, path);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringRecord(value: Record<string, unknown>): boolean {
+  return Object.values(value).every((item) => typeof item === "string");
+}
@@ -0,0 +1,93 @@
+// Doctor - checks the Amp data directories and explains which threads can't be read
+
+import * as p from "@clack/prompts";
+import { collectAmpUsageSummary, resolveThreadsPath } from "./collector";
+import { getThreadCachePath, type ThreadCacheMode } from "./cache";
+import { ExitCode } from "./exit-codes";
+import { formatDateKey } from "./utils/dates";
+import { formatNumberFull } from "./utils/format";
+import type { AmpDateRange, AmpScanDiagnostics, AmpScanWarning } from "./types";
+
+export interface DoctorOptions {
+  dataDirs: string[];
+  timeZone: string;
+  cacheMode: ThreadCacheMode;
+  verbose: boolean;
+}
+
+// Without --verbose only the first few warnings are listed
+const WARNING_PREVIEW_LIMIT = 10;
+
+export function formatScanWarning(warning: AmpScanWarning): string {
+  const version = warning.version !== undefined ? ` (v${warning.version})` : "";
+  return `${warning.file}: ${warning.reason}${version}`;
+}
+
+export function formatDiagnosticsSummary(diagnostics: AmpScanDiagnostics): string[] {
+  return [
+    `Thread files:  ${formatNumberFull(diagnostics.totalFiles)}`,
+    `Parsed:        ${formatNumberFull(diagnostics.parsedFiles)}`,
+    `From cache:    ${formatNumberFull(diagnostics.cachedFiles)}`,
+    `Out of range:  ${formatNumberFull(diagnostics.outOfRangeFiles)}`,
+    `Skipped:       ${formatNumberFull(diagnostics.failedFiles)}`,
+  ];
+}
+
+// Partially read threads still count, so only skipped files are said to be left out
+function describeProblems({ warnings, failedFiles }: AmpScanDiagnostics): string {
+  const found = `Found ${formatNumberFull(warnings.length)} problem${warnings.length === 1 ? "" : "s"}.`;
+  if (failedFiles === 0) return `${found} No thread files were skipped.`;
+  return `${found} ${formatNumberFull(failedFiles)} skipped file${failedFiles === 1 ? " is" : "s are"} left out of your stats.`;
+}
+
+/**
+ * Scan every thread regardless of date and report what was read, what came
+ * from the cache and every file that had to be skipped, with the reason.
+ */
+export async function runDoctor({ dataDirs, timeZone, cacheMode, verbose }: DoctorOptions): Promise<ExitCode> {
+  p.intro("amp wrapped doctor");
+
+  const dirLines: string[] = [];
+  let foundDirs = 0;
+  for (const dir of dataDirs) {
+    const threadsPath = await resolveThreadsPath(dir);
+    if (threadsPath) foundDirs++;
+    dirLines.push(threadsPath ? `✓ ${threadsPath}` : `✗ ${dir} (not found)`);
+  }
+  p.note(dirLines.join("\n"), "Data directories");
+
+  if (foundDirs === 0) {
+    p.cancel("No Amp data found. Make sure you have used Amp at least once, or pass --data-dir.");
+    return ExitCode.NoData;
+  }
+
+  const today = formatDateKey(new Date(), timeZone);
+  const range: AmpDateRange = { kind: "custom", start: "1970-01-01", end: today, label: "All Time", slug: "all-time" };
+
+  p.log.step("Scanning all threads...");
+  const summary = await collectAmpUsageSummary({ range, dataDirs, timeZone, cacheMode });
+  const { diagnostics } = summary;
+
+  p.note(
+    [
+      ...formatDiagnosticsSummary(diagnostics),
+      "",
+      `Threads:       ${formatNumberFull(summary.totalSessions)}`,
+      `Messages:      ${formatNumberFull(summary.totalMessages)}`,
+      `Time zone:     ${timeZone}`,
+      `Cache:         ${cacheMode === "off" ? "disabled" : getThreadCachePath()}`,
+    ].join("\n"),
+    "Scan"
+  );
+
+  const shown = verbose ? diagnostics.warnings : diagnostics.warnings.slice(0, WARNING_PREVIEW_LIMIT);
+  shown.forEach((warning) => p.log.warn(formatScanWarning(warning)));
+
+  const hidden = diagnostics.warnings.length - shown.length;
+  if (hidden > 0) {
+    p.log.info(`${formatNumberFull(hidden)} more warnings. Run amp-wrapped doctor --verbose to list them all.`);
+  }
+
+  p.outro(diagnostics.warnings.length === 0 ? "Everything looks good." : describeProblems(diagnostics));
+  return ExitCode.Success;
+}
@@ -0,0 +1,18 @@
+// Process exit codes, so scripts and cron jobs can tell outcomes apart
+
+export const ExitCode = {
+  /** Finished normally, or the user cancelled a prompt */
+  Success: 0,
+  /** Unexpected failure while collecting stats or rendering the image */
+  Error: 1,
+  /** Unknown or conflicting command line options */
+  InvalidUsage: 2,
+  /** No Amp data directory, or no activity in the requested range */
+  NoData: 3,
+  /** The requested wrapped isn't available yet */
+  NotAvailable: 4,
+  /** The image or JSON could not be written to disk */
+  SaveFailed: 5,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
@@ -0,0 +1,133 @@
+// JSON export - serializes AmpCodeStats into a stable, versioned document
+
+import type {
+  AmpCodeStats,
+  AmpDailyActivity,
+  AmpDateRange,
+  AmpHeatmapMetric,
+  AmpHourlyActivity,
+  AmpModelStats,
+  AmpProjectStats,
+  AmpProviderStats,
+  AmpScanDiagnostics,
+  AmpToolUsage,
+  AmpYearlyTotals,
+} from "./types";
+
+/**
+ * Bump when a field is renamed, removed or changes meaning.
+ * Adding new fields is backwards compatible and does not require a bump.
+ */
+export const AMP_STATS_SCHEMA_VERSION = 1;
+
+/**
+ * JSON form of AmpCodeStats. Field names mirror AmpCodeStats; Dates become
+ * ISO 8601 strings, Maps become arrays sorted by date and Sets become sorted arrays.
+ */
+export interface AmpStatsJson {
+  schemaVersion: typeof AMP_STATS_SCHEMA_VERSION;
+  generatedAt: string; // ISO 8601 timestamp
+
+  year: number;
+  range: AmpDateRange;
+  timeZone: string; // IANA name, e.g. "Europe/Berlin"
+
+  firstSessionDate: string; // ISO 8601 timestamp
+  daysSinceFirstSession: number;
+
+  totalSessions: number;
+  totalMessages: number;
+  totalProjects: number;
+
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalTokens: number;
+  totalCacheReadTokens: number;
+  cacheHitRate: number; // 0-100
+
+  totalCredits: number;
+  hasCredits: boolean;
+
+  models: AmpModelStats[];
+  providers: AmpProviderStats[];
+  topModels: AmpModelStats[];
+  topProviders: AmpProviderStats[];
+  topProjects: AmpProjectStats[];
+  toolUsage: AmpToolUsage;
+
+  maxStreak: number;
+  currentStreak: number;
+  maxStreakDays: string[]; // YYYY-MM-DD, ascending
+
+  heatmapMetric: AmpHeatmapMetric;
+  // Ascending by date; `count` is the heatmap metric, the rest are the day's totals
+  dailyActivity: Array<{ date: string; count: number } & AmpDailyActivity>;
+
+  mostActiveDay: {
+    date: string;
+    count: number;
+    formattedDate: string;
+  } | null;
+
+  weekdayActivity: {
+    counts: number[]; // Sunday first
+    mostActiveDay: number; // 0 = Sunday
+    mostActiveDayName: string;
+    maxCount: number;
+  };
+
+  hourlyActivity: AmpHourlyActivity;
+
+  yearlyTotals: AmpYearlyTotals[]; // Ascending by year
+
+  diagnostics: AmpScanDiagnostics;
+}
+
+export function serializeStats(stats: AmpCodeStats): AmpStatsJson {
+  return {
+    schemaVersion: AMP_STATS_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    year: stats.year,
+    range: stats.range,
+    timeZone: stats.timeZone,
+    firstSessionDate: stats.firstSessionDate.toISOString(),
+    daysSinceFirstSession: stats.daysSinceFirstSession,
+    totalSessions: stats.totalSessions,
+    totalMessages: stats.totalMessages,
+    totalProjects: stats.totalProjects,
+    totalInputTokens: stats.totalInputTokens,
+    totalOutputTokens: stats.totalOutputTokens,
+    totalTokens: stats.totalTokens,
+    totalCacheReadTokens: stats.totalCacheReadTokens,
+    cacheHitRate: stats.cacheHitRate,
+    totalCredits: stats.totalCredits,
+    hasCredits: stats.hasCredits,
+    models: stats.models,
+    providers: stats.providers,
+    topModels: stats.topModels,
+    topProviders: stats.topProviders,
+    topProjects: stats.topProjects,
+    toolUsage: stats.toolUsage,
+    maxStreak: stats.maxStreak,
+    currentStreak: stats.currentStreak,
+    maxStreakDays: Array.from(stats.maxStreakDays).sort(),
+    heatmapMetric: stats.heatmapMetric,
+    dailyActivity: Array.from(stats.dailyTotals.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, totals]) => ({ date, count: stats.dailyActivity.get(date) ?? 0, ...totals })),
+    mostActiveDay: stats.mostActiveDay,
+    weekdayActivity: {
+      counts: [...stats.weekdayActivity.counts],
+      mostActiveDay: stats.weekdayActivity.mostActiveDay,
+      mostActiveDayName: stats.weekdayActivity.mostActiveDayName,
+      maxCount: stats.weekdayActivity.maxCount,
+    },
+    hourlyActivity: stats.hourlyActivity,
+    yearlyTotals: stats.yearlyTotals,
+    diagnostics: stats.diagnostics,
+  };
+}
+
+export function formatStatsJson(stats: AmpCodeStats): string {
+  return `${JSON.stringify(serializeStats(stats), null, 2)}\n`;
+}
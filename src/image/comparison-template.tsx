@@ -0,0 +1,506 @@
+import type { AmpCodeStats, AmpDelta, AmpModelShift, AmpStatsComparison } from "../types";
+import { formatHour, formatNumber, formatNumberFull, truncateText } from "../utils/format";
+import { getProviderLogoUrl } from "../models";
+import { CardBackground, Footer, Header } from "./template";
+import { ampTypography, ampSpacing, ampLayout, ampComponents, type AmpColors } from "./design-tokens";
+
+// More rows than this and the model bars get too thin to read
+const MODEL_MIX_MAX_ROWS = 5;
+const MODEL_NAME_MAX_CHARS = 20;
+const HIGHLIGHT_MAX_CHARS = 18;
+
+// Changes smaller than this (in percent or percentage points) show as unchanged
+const UNCHANGED_THRESHOLD = 0.05;
+
+type Direction = "up" | "down" | "none";
+
+export function AmpComparisonTemplate({ comparison, colors }: { comparison: AmpStatsComparison; colors: AmpColors }) {
+  const { before, after } = comparison;
+
+  const metrics: DeltaBoxProps[] = [
+    { label: "Threads", value: formatNumberFull(after.totalSessions), previous: formatNumberFull(before.totalSessions), delta: comparison.threads },
+    { label: "Messages", value: formatNumberFull(after.totalMessages), previous: formatNumberFull(before.totalMessages), delta: comparison.messages },
+    { label: "Tokens", value: formatNumber(after.totalTokens), previous: formatNumber(before.totalTokens), delta: comparison.tokens },
+    ...(comparison.hasCredits
+      ? [{ label: "Credits", value: after.totalCredits.toFixed(1), previous: before.totalCredits.toFixed(1), delta: comparison.credits }]
+      : []),
+    { label: "Projects", value: formatNumberFull(after.totalProjects), previous: formatNumberFull(before.totalProjects), delta: comparison.projects },
+    { label: "Active Days", value: formatNumberFull(comparison.activeDays.after), previous: formatNumberFull(comparison.activeDays.before), delta: comparison.activeDays },
+    { label: "Streak", value: `${after.maxStreak}d`, previous: `${before.maxStreak}d`, delta: comparison.longestStreak },
+  ].map((metric) => ({ ...metric, colors }));
+
+  // Seven boxes with credits sit four and three, six sit three and three
+  const perRow = metrics.length > 6 ? 4 : 3;
+  const metricRows: DeltaBoxProps[][] = [];
+  for (let i = 0; i < metrics.length; i += perRow) {
+    metricRows.push(metrics.slice(i, i + perRow));
+  }
+
+  return (
+    <div
+      style={{
+        width: ampLayout.comparisonCanvas.width,
+        height: ampLayout.comparisonCanvas.height,
+        display: "flex",
+        flexDirection: "column",
+        backgroundColor: colors.background,
+        color: colors.text.primary,
+        fontFamily: ampTypography.fontFamily.mono,
+        paddingLeft: ampLayout.padding.horizontal,
+        paddingRight: ampLayout.padding.horizontal,
+        paddingTop: ampLayout.padding.top,
+        paddingBottom: ampLayout.padding.bottom,
+        position: "relative",
+        overflow: "hidden",
+      }}
+    >
+      <CardBackground colors={colors} />
+
+      <Header label={`${before.range.label} vs ${after.range.label}`} colors={colors} />
+
+      <div style={{ marginTop: ampSpacing[8], display: "flex", flexDirection: "column", gap: ampSpacing[5] }}>
+        {metricRows.map((row, i) => (
+          <div key={i} style={{ display: "flex", gap: ampSpacing[5] }}>
+            {row.map((metric) => (
+              <DeltaBox key={metric.label} {...metric} />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {comparison.modelShifts.length > 0 && (
+        <ModelMix
+          shifts={comparison.modelShifts.slice(0, MODEL_MIX_MAX_ROWS)}
+          beforeLabel={before.range.label}
+          afterLabel={after.range.label}
+          colors={colors}
+        />
+      )}
+
+      <div style={{ marginTop: ampSpacing[8], display: "flex", flexDirection: "row", gap: ampSpacing[8] }}>
+        <PairedBarChart
+          title="Weekly"
+          before={before.weekdayActivity.counts}
+          after={after.weekdayActivity.counts}
+          labels={WEEKDAY_LABELS.map((label, i) => ({ index: i, label }))}
+          barWidth={30}
+          pairGap={18}
+          colors={colors}
+        />
+        <PairedBarChart
+          title="Daily Rhythm"
+          before={before.hourlyActivity.counts}
+          after={after.hourlyActivity.counts}
+          labels={HOUR_LABELS}
+          barWidth={9}
+          pairGap={4}
+          colors={colors}
+        />
+      </div>
+
+      <div style={{ marginTop: ampSpacing[8], display: "flex", flexDirection: "row", gap: ampSpacing[8] }}>
+        <HighlightCard
+          title="Top Model"
+          before={before.topModels[0]?.name}
+          after={after.topModels[0]?.name}
+          colors={colors}
+        />
+        <HighlightCard
+          title="Top Project"
+          before={before.topProjects[0]?.name}
+          after={after.topProjects[0]?.name}
+          colors={colors}
+        />
+        <HighlightCard title="Peak Hour" before={getPeakHour(before)} after={getPeakHour(after)} colors={colors} />
+      </div>
+
+      {/* Keeps the footer at the bottom when there are few models */}
+      <div style={{ display: "flex", flex: 1 }} />
+      <Footer colors={colors} />
+    </div>
+  );
+}
+
+interface DeltaBoxProps {
+  label: string;
+  value: string;
+  previous: string;
+  delta: AmpDelta;
+  colors: AmpColors;
+}
+
+function DeltaBox({ label, value, previous, delta, colors }: DeltaBoxProps) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        backgroundColor: colors.surface,
+        paddingTop: ampComponents.statBox.padding.y,
+        paddingBottom: ampComponents.statBox.padding.y,
+        paddingLeft: ampComponents.statBox.padding.x,
+        paddingRight: ampComponents.statBox.padding.x,
+        gap: ampComponents.statBox.gap,
+        flex: 1,
+        borderRadius: ampComponents.statBox.borderRadius,
+        border: `1px solid ${colors.surfaceBorder}`,
+      }}
+    >
+      <span
+        style={{
+          fontSize: ampTypography.size.lg,
+          fontWeight: ampTypography.weight.medium,
+          color: colors.text.tertiary,
+          textTransform: "uppercase",
+          letterSpacing: ampTypography.letterSpacing.wide,
+        }}
+      >
+        {label}
+      </span>
+
+      <span
+        style={{
+          fontSize: ampTypography.size["2xl"],
+          fontWeight: ampTypography.weight.bold,
+          color: colors.text.primary,
+          lineHeight: ampTypography.lineHeight.none,
+        }}
+      >
+        {value}
+      </span>
+
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: ampSpacing[3] }}>
+        <span style={{ fontSize: ampTypography.size.md, color: colors.text.muted }}>was {previous}</span>
+        <ChangeBadge {...getPercentChange(delta)} colors={colors} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * ▲ or ▼ in green or red with the change next to it; unchanged and new
+ * values are spelled out in muted text instead
+ */
+function ChangeBadge({ direction, text, colors }: { direction: Direction; text: string; colors: AmpColors }) {
+  const color = getDirectionColor(direction, colors);
+
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: ampSpacing[2] }}>
+      {direction !== "none" && <img src={getArrowDataUrl(direction, color)} width={18} height={18} />}
+      <span
+        style={{
+          fontSize: ampTypography.size.md,
+          fontWeight: ampTypography.weight.bold,
+          color,
+        }}
+      >
+        {text}
+      </span>
+    </div>
+  );
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const HOUR_LABELS = [
+  { index: 0, label: "12a" },
+  { index: 6, label: "6a" },
+  { index: 12, label: "12p" },
+  { index: 18, label: "6p" },
+];
+const PAIRED_BAR_HEIGHT = 120;
+const PAIRED_BAR_INNER_GAP = 2;
+
+/**
+ * Both periods' bars side by side, each as a share of its own period's total
+ * so a busier period doesn't dwarf the other's shape
+ */
+function PairedBarChart({
+  title,
+  before,
+  after,
+  labels,
+  barWidth,
+  pairGap,
+  colors,
+}: {
+  title: string;
+  before: number[];
+  after: number[];
+  labels: Array<{ index: number; label: string }>;
+  barWidth: number;
+  pairGap: number;
+  colors: AmpColors;
+}) {
+  const beforeShares = toShares(before);
+  const afterShares = toShares(after);
+  const maxShare = Math.max(...beforeShares, ...afterShares);
+  const pairWidth = barWidth * 2 + PAIRED_BAR_INNER_GAP;
+
+  const getBarHeight = (share: number) =>
+    Math.max(4, Math.round((maxShare > 0 ? share / maxShare : 0) * PAIRED_BAR_HEIGHT));
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: ampSpacing[4],
+        flex: 1,
+        backgroundColor: colors.surface,
+        border: `1px solid ${colors.surfaceBorder}`,
+        borderRadius: ampLayout.radius.lg,
+        padding: ampSpacing[6],
+      }}
+    >
+      <span
+        style={{
+          fontSize: ampComponents.sectionHeader.fontSize,
+          fontWeight: ampComponents.sectionHeader.fontWeight,
+          color: colors.text.secondary,
+          letterSpacing: ampComponents.sectionHeader.letterSpacing,
+          textTransform: ampComponents.sectionHeader.textTransform,
+        }}
+      >
+        {title}
+      </span>
+
+      <div style={{ display: "flex", flexDirection: "row", alignItems: "flex-end", gap: pairGap, height: PAIRED_BAR_HEIGHT }}>
+        {beforeShares.map((share, i) => (
+          <div key={i} style={{ display: "flex", alignItems: "flex-end", gap: PAIRED_BAR_INNER_GAP }}>
+            <div style={{ width: barWidth, height: getBarHeight(share), backgroundColor: colors.heatmap.level4, borderRadius: 3 }} />
+            <div
+              style={{ width: barWidth, height: getBarHeight(afterShares[i]), backgroundColor: colors.accent.primary, borderRadius: 3 }}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: "flex", position: "relative", height: 18 }}>
+        {labels.map(({ index, label }) => (
+          <span
+            key={index}
+            style={{
+              position: "absolute",
+              left: index * (pairWidth + pairGap),
+              width: pairWidth,
+              fontSize: ampTypography.size.sm,
+              color: colors.text.muted,
+            }}
+          >
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function toShares(counts: number[]): number[] {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return counts.map((count) => (total > 0 ? count / total : 0));
+}
+
+const MIX_BAR_HEIGHT = 10;
+
+function ModelMix({
+  shifts,
+  beforeLabel,
+  afterLabel,
+  colors,
+}: {
+  shifts: AmpModelShift[];
+  beforeLabel: string;
+  afterLabel: string;
+  colors: AmpColors;
+}) {
+  return (
+    <div
+      style={{
+        marginTop: ampSpacing[8],
+        display: "flex",
+        flexDirection: "column",
+        gap: ampSpacing[5],
+        backgroundColor: colors.surface,
+        border: `1px solid ${colors.surfaceBorder}`,
+        borderRadius: ampLayout.radius.lg,
+        padding: ampSpacing[6],
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "baseline", justifyContent: "space-between" }}>
+        <span
+          style={{
+            fontSize: ampComponents.sectionHeader.fontSize,
+            fontWeight: ampComponents.sectionHeader.fontWeight,
+            color: colors.text.secondary,
+            letterSpacing: ampComponents.sectionHeader.letterSpacing,
+            textTransform: ampComponents.sectionHeader.textTransform,
+          }}
+        >
+          Model Mix
+        </span>
+        <div style={{ display: "flex", alignItems: "center", gap: ampSpacing[6] }}>
+          <MixLegend label={beforeLabel} color={colors.heatmap.level4} colors={colors} />
+          <MixLegend label={afterLabel} color={colors.accent.primary} colors={colors} />
+        </div>
+      </div>
+
+      {shifts.map((shift) => (
+        <div key={shift.id} style={{ display: "flex", alignItems: "center", gap: ampSpacing[4] }}>
+          <img
+            src={getProviderLogoUrl(shift.providerId)}
+            width={ampComponents.ranking.logoSize}
+            height={ampComponents.ranking.logoSize}
+            style={{
+              borderRadius: ampComponents.ranking.logoBorderRadius,
+              background: "#ffffff",
+            }}
+          />
+          <span
+            style={{
+              width: 340,
+              fontSize: ampComponents.ranking.itemSize,
+              fontWeight: ampTypography.weight.medium,
+              color: colors.text.primary,
+            }}
+          >
+            {truncateText(shift.name, MODEL_NAME_MAX_CHARS)}
+          </span>
+
+          <div style={{ display: "flex", flexDirection: "column", gap: ampSpacing[1], flex: 1 }}>
+            <MixBar share={shift.beforeShare} color={colors.heatmap.level4} colors={colors} />
+            <MixBar share={shift.afterShare} color={colors.accent.primary} colors={colors} />
+          </div>
+
+          <div style={{ display: "flex", justifyContent: "flex-end", width: 170 }}>
+            <ChangeBadge {...getPointChange(shift.change)} colors={colors} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function MixLegend({ label, color, colors }: { label: string; color: string; colors: AmpColors }) {
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: ampSpacing[2] }}>
+      <div style={{ width: 14, height: 14, borderRadius: ampLayout.radius.sm, backgroundColor: color }} />
+      <span style={{ fontSize: ampTypography.size.sm, color: colors.text.tertiary }}>{label}</span>
+    </div>
+  );
+}
+
+function MixBar({ share, color, colors }: { share: number; color: string; colors: AmpColors }) {
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: ampSpacing[3] }}>
+      <div
+        style={{
+          display: "flex",
+          flex: 1,
+          height: MIX_BAR_HEIGHT,
+          borderRadius: MIX_BAR_HEIGHT / 2,
+          backgroundColor: colors.heatmap.empty,
+        }}
+      >
+        <div
+          style={{
+            width: `${Math.min(100, Math.max(0, share))}%`,
+            height: "100%",
+            borderRadius: MIX_BAR_HEIGHT / 2,
+            backgroundColor: color,
+          }}
+        />
+      </div>
+      <span style={{ width: 72, textAlign: "right", fontSize: ampTypography.size.sm, color: colors.text.tertiary }}>
+        {share.toFixed(1)}%
+      </span>
+    </div>
+  );
+}
+
+function HighlightCard({
+  title,
+  before,
+  after,
+  colors,
+}: {
+  title: string;
+  before?: string;
+  after?: string;
+  colors: AmpColors;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: ampSpacing[3],
+        flex: 1,
+        backgroundColor: colors.surface,
+        border: `1px solid ${colors.surfaceBorder}`,
+        borderRadius: ampLayout.radius.lg,
+        padding: ampSpacing[6],
+      }}
+    >
+      <span
+        style={{
+          fontSize: ampComponents.sectionHeader.fontSize,
+          fontWeight: ampComponents.sectionHeader.fontWeight,
+          color: colors.text.secondary,
+          letterSpacing: ampComponents.sectionHeader.letterSpacing,
+          textTransform: ampComponents.sectionHeader.textTransform,
+        }}
+      >
+        {title}
+      </span>
+      <span style={{ fontSize: ampTypography.size.md, color: colors.text.muted }}>
+        was {truncateText(before ?? "none", HIGHLIGHT_MAX_CHARS)}
+      </span>
+      <span
+        style={{
+          fontSize: ampComponents.ranking.itemSize,
+          fontWeight: ampTypography.weight.bold,
+          color: after === before ? colors.text.primary : colors.accent.primary,
+        }}
+      >
+        {truncateText(after ?? "none", HIGHLIGHT_MAX_CHARS)}
+      </span>
+    </div>
+  );
+}
+
+function getPercentChange(delta: AmpDelta): { direction: Direction; text: string } {
+  if (delta.percentChange === null) {
+    return { direction: "none", text: delta.after > 0 ? "New" : "—" };
+  }
+  return getChange(delta.percentChange, "%");
+}
+
+function getPointChange(change: number): { direction: Direction; text: string } {
+  return getChange(change, " pts");
+}
+
+function getChange(change: number, unit: string): { direction: Direction; text: string } {
+  if (Math.abs(change) < UNCHANGED_THRESHOLD) {
+    return { direction: "none", text: "Same" };
+  }
+  // Big jumps read better without decimals
+  const digits = Math.abs(change) >= 100 ? 0 : 1;
+  return { direction: change > 0 ? "up" : "down", text: `${Math.abs(change).toFixed(digits)}${unit}` };
+}
+
+function getDirectionColor(direction: Direction, colors: AmpColors): string {
+  if (direction === "up") return colors.semantic.success;
+  if (direction === "down") return colors.semantic.error;
+  return colors.text.muted;
+}
+
+// Drawn as SVG so the card doesn't depend on the font having the triangle glyphs
+function getArrowDataUrl(direction: "up" | "down", color: string): string {
+  const path = direction === "up" ? "M9 2 L17 16 L1 16 Z" : "M1 2 L17 2 L9 16 Z";
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 18 18"><path d="${path}" fill="${color}"/></svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
+
+function getPeakHour(stats: AmpCodeStats): string | undefined {
+  return stats.totalMessages > 0 ? formatHour(stats.hourlyActivity.peakHour) : undefined;
+}
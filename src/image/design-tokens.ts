@@ -67,7 +67,72 @@ export const ampColors = {
     level6: "#BC4040", // High
     level7: "#E53935", // Max (accent)
   },
-} as const;
+};
+
+type Widen<T> = { [K in keyof T]: T[K] extends string ? string : Widen<T[K]> };
+
+export type AmpColors = Widen<typeof ampColors>;
+
+/**
+ * Light palette - same red accent on a paper-white background
+ */
+export const ampLightColors: AmpColors = {
+  background: "#F7F5F2",
+  surface: "#FFFFFF",
+  surfaceHover: "#F0EEEB",
+  surfaceBorder: "#E2DFDA",
+
+  text: {
+    primary: "#141414",
+    secondary: "#2B2B2B",
+    tertiary: "#5C5C5C",
+    muted: "#8A8A8A",
+    disabled: "#B5B5B5",
+  },
+
+  accent: {
+    primary: "#E53935",
+    primaryHover: "#D32F2F",
+    secondary: "#FF7043",
+    tertiary: "#B71C1C",
+  },
+
+  semantic: {
+    success: "#16A34A",
+    warning: "#D97706",
+    error: "#DC2626",
+    info: "#2563EB",
+  },
+
+  heatmap: {
+    empty: "#ECE9E4",
+    level1: "#F8D7D3",
+    level2: "#F4B8B1",
+    level3: "#EE978E",
+    level4: "#E8766B",
+    level5: "#E25A4E",
+    level6: "#D94338",
+    level7: "#C62828",
+  },
+
+  streak: {
+    empty: "#ECE9E4",
+    level1: "#F8D7D3",
+    level2: "#F4B8B1",
+    level3: "#EE978E",
+    level4: "#E8766B",
+    level5: "#E25A4E",
+    level6: "#D94338",
+    level7: "#C62828",
+  },
+};
+
+export type AmpThemeName = "dark" | "light";
+
+export const AMP_THEMES: Record<AmpThemeName, AmpColors> = {
+  dark: ampColors,
+  light: ampLightColors,
+};
 
 // =============================================================================
 // TYPOGRAPHY
@@ -144,15 +209,21 @@ export const ampSpacing = {
 // =============================================================================
 
 export const ampLayout = {
+  // The card is as tall as its content, so sparse stats don't leave a gap at the bottom
   canvas: {
     width: 1500,
-    height: 1400,
+  },
+
+  // The compare card has no heatmap, so it's square
+  comparisonCanvas: {
+    width: 1500,
+    height: 1500,
   },
 
   padding: {
     horizontal: 64,
     top: 64,
-    bottom: 8,
+    bottom: 40,
   },
 
   content: {
@@ -183,7 +254,6 @@ export const ampLayout = {
 
 export const ampComponents = {
   statBox: {
-    background: ampColors.surface,
     borderRadius: ampLayout.radius.lg,
     padding: {
       x: 32,
@@ -193,29 +263,33 @@ export const ampComponents = {
   },
 
   card: {
-    background: ampColors.surface,
     borderRadius: ampLayout.radius.lg,
-    borderColor: ampColors.surfaceBorder,
     padding: ampSpacing[6],
   },
 
   sectionHeader: {
     fontSize: ampTypography.size.lg,
     fontWeight: ampTypography.weight.medium,
-    color: ampColors.text.secondary,
     letterSpacing: ampTypography.letterSpacing.wider,
     textTransform: "uppercase" as const,
   },
 
   heatmapCell: {
-    size: 23.4,
+    // 54 week columns (a year or rolling 12 months starting mid-week) fit the content width
+    size: 22.4,
     gap: 3,
     borderRadius: ampLayout.radius.sm,
   },
 
+  // One row per year in the all-time card's heatmap stack
+  yearlyHeatmapCell: {
+    size: 12,
+    gap: 2,
+    borderRadius: 3,
+  },
+
   legend: {
     fontSize: ampTypography.size.xs,
-    color: ampColors.text.muted,
     cellSize: 14,
     gap: 6,
   },
@@ -227,6 +301,7 @@ export const ampComponents = {
     gap: ampSpacing[4],
     logoSize: 32,
     logoBorderRadius: ampLayout.radius.md,
+    shareBarHeight: 6,
   },
 } as const;
 
@@ -234,25 +309,14 @@ export const ampComponents = {
 // HEATMAP COLOR MAPS
 // =============================================================================
 
-export const AMP_HEATMAP_COLORS = {
-  0: ampColors.heatmap.empty,
-  1: ampColors.heatmap.level1,
-  2: ampColors.heatmap.level2,
-  3: ampColors.heatmap.level3,
-  4: ampColors.heatmap.level4,
-  5: ampColors.heatmap.level5,
-  6: ampColors.heatmap.level6,
-} as const;
-
-export const AMP_STREAK_COLORS = {
-  0: ampColors.streak.empty,
-  1: ampColors.streak.level1,
-  2: ampColors.streak.level2,
-  3: ampColors.streak.level3,
-  4: ampColors.streak.level4,
-  5: ampColors.streak.level5,
-  6: ampColors.streak.level7,
-} as const;
+/**
+ * Heatmap cell colors by intensity level (0-6). Days in the longest streak
+ * use the streak scale, which ends on the accent color.
+ */
+export function getHeatmapColors(colors: AmpColors, streak = false): string[] {
+  const scale = streak ? colors.streak : colors.heatmap;
+  return [scale.empty, scale.level1, scale.level2, scale.level3, scale.level4, scale.level5, streak ? scale.level7 : scale.level6];
+}
 
 // =============================================================================
 // UTILITY FUNCTIONS
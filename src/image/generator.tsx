@@ -2,35 +2,74 @@ import satori from "satori";
 import { Resvg, initWasm } from "@resvg/resvg-wasm";
 import resvgWasm from "@resvg/resvg-wasm/index_bg.wasm";
 import { AmpWrappedTemplate } from "./template";
-import type { AmpCodeStats } from "../types";
+import { AmpComparisonTemplate } from "./comparison-template";
+import type { AmpCodeStats, AmpStatsComparison } from "../types";
 import { loadFonts } from "./fonts";
-import { ampLayout } from "./design-tokens";
+import { AMP_THEMES, ampLayout, type AmpThemeName } from "./design-tokens";
+
+/** Raw pixels, 4 bytes (RGBA) per pixel, row by row */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
 
 export interface GeneratedImage {
   /** Full resolution PNG buffer for saving/clipboard */
   fullSize: Buffer;
-  /** Scaled PNG buffer for terminal display (80% of full size) */
+  /** Scaled PNG buffer for terminal display (75% of full size) */
   displaySize: Buffer;
+  /** The display size image as pixels, for protocols that don't take PNG (sixel) */
+  displayPixels: RgbaImage;
+}
+
+export interface GenerateImageOptions {
+  /** Card color theme (default: dark) */
+  theme?: AmpThemeName;
+}
+
+export async function generateAmpImage(stats: AmpCodeStats, options: GenerateImageOptions = {}): Promise<GeneratedImage> {
+  return renderCard(<AmpWrappedTemplate stats={stats} colors={AMP_THEMES[options.theme ?? "dark"]} />, ampLayout.canvas);
+}
+
+/**
+ * The card for the compare command: both periods' numbers with the change
+ * between them, and how the model mix shifted
+ */
+export async function generateComparisonImage(
+  comparison: AmpStatsComparison,
+  options: GenerateImageOptions = {}
+): Promise<GeneratedImage> {
+  return renderCard(
+    <AmpComparisonTemplate comparison={comparison} colors={AMP_THEMES[options.theme ?? "dark"]} />,
+    ampLayout.comparisonCanvas
+  );
 }
 
-export async function generateAmpImage(stats: AmpCodeStats): Promise<GeneratedImage> {
+/**
+ * Without a height, satori sizes the image to fit the card's content
+ */
+async function renderCard(card: React.ReactNode, size: { width: number; height?: number }): Promise<GeneratedImage> {
   await initWasm(Bun.file(resvgWasm).arrayBuffer());
 
-  const svg = await satori(<AmpWrappedTemplate stats={stats} />, {
-    width: ampLayout.canvas.width,
-    height: ampLayout.canvas.height,
+  const svg = await satori(card, {
+    ...size,
     fonts: await loadFonts(),
   });
 
-  const [fullSize, displaySize] = [1, 0.75].map((v) => {
+  const [full, display] = [1, 0.75].map((v) => {
     const resvg = new Resvg(svg, {
       fitTo: {
         mode: "zoom",
         value: v,
       },
     });
-    return Buffer.from(resvg.render().asPng());
+    return resvg.render();
   });
 
-  return { fullSize, displaySize };
+  return {
+    fullSize: Buffer.from(full.asPng()),
+    displaySize: Buffer.from(display.asPng()),
+    displayPixels: { width: display.width, height: display.height, pixels: display.pixels },
+  };
 }
@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { resolveDateRange, yearRange } from "../utils/dates";
+import { fitsActivityHeatmap, getYearWeeks } from "./heatmap";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+describe("fitsActivityHeatmap", () => {
+  test("a calendar year or 12 rolling months fit one heatmap", () => {
+    expect(fitsActivityHeatmap(yearRange(2025), "UTC")).toBe(true);
+    expect(fitsActivityHeatmap(resolveDateRange({ last: "12m" }, "UTC", NOW), "UTC")).toBe(true);
+  });
+
+  test("ranges longer than 54 weeks don't", () => {
+    expect(fitsActivityHeatmap(resolveDateRange({ last: "2y" }, "UTC", NOW), "UTC")).toBe(false);
+    expect(fitsActivityHeatmap(resolveDateRange({ last: "3y" }, "UTC", NOW), "UTC")).toBe(false);
+    expect(fitsActivityHeatmap(resolveDateRange({ since: "2024-01-01", until: "2025-02-15" }, "UTC", NOW), "UTC")).toBe(false);
+  });
+});
+
+describe("getYearWeeks", () => {
+  test("each year of a long range fits the stack's 54 columns, with days outside the range blank", () => {
+    const range = resolveDateRange({ since: "2023-10-23", until: "2025-03-31" }, "UTC", NOW);
+
+    for (const year of [2023, 2024, 2025]) {
+      const weeks = getYearWeeks(year, range, "UTC");
+      expect(weeks.length).toBeLessThanOrEqual(54);
+
+      const days = weeks.flat().filter(Boolean);
+      expect(days.every((day) => day >= range.start && day <= range.end)).toBe(true);
+    }
+
+    expect(getYearWeeks(2023, range, "UTC").flat().filter(Boolean)[0]).toBe("2023-10-23");
+    expect(getYearWeeks(2025, range, "UTC").flat().filter(Boolean).at(-1)).toBe("2025-03-31");
+  });
+});
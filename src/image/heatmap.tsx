@@ -1,10 +1,20 @@
-import { generateWeeksForYear, getIntensityLevel } from "../utils/dates";
-import { ampColors, ampTypography, ampSpacing, ampComponents, AMP_HEATMAP_COLORS, AMP_STREAK_COLORS } from "./design-tokens";
+import type { AmpDateRange, AmpHeatmapMetric, AmpYearlyTotals } from "../types";
+import { daysBetween, generateWeeksForRange, getIntensityLevel, getWeekday, yearRange } from "../utils/dates";
+import { formatNumber } from "../utils/format";
+import { ampTypography, ampSpacing, ampLayout, ampComponents, getHeatmapColors, type AmpColors } from "./design-tokens";
 
 interface HeatmapProps {
   dailyActivity: Map<string, number>;
-  year: number;
+  range: AmpDateRange;
+  timeZone: string;
   maxStreakDays?: Set<string>;
+  colors: AmpColors;
+}
+
+interface CellStyle {
+  size: number;
+  gap: number;
+  borderRadius: number;
 }
 
 interface MonthLabel {
@@ -14,20 +24,33 @@ interface MonthLabel {
 
 const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 
-const CELL_SIZE = ampComponents.heatmapCell.size;
-const CELL_GAP = ampComponents.heatmapCell.gap;
-const CELL_RADIUS = ampComponents.heatmapCell.borderRadius;
+const CELL: CellStyle = ampComponents.heatmapCell;
+const YEARLY_CELL: CellStyle = ampComponents.yearlyHeatmapCell;
+
+const YEAR_LABEL_WIDTH = 88;
+// A year that starts late in the week and ends early in the next spans 54 week columns
+const MAX_WEEKS = 54;
+const YEAR_ROW_GAP = ampSpacing[3];
+const YEAR_BAR_HEIGHT = 10;
 
 const LEGEND_CELL_SIZE = ampComponents.legend.cellSize;
 const LEGEND_GAP = ampComponents.legend.gap;
 
-export function AmpActivityHeatmap({ dailyActivity, year, maxStreakDays }: HeatmapProps) {
-  const weeks = generateWeeksForYear(year);
+/**
+ * Whether the range fits one heatmap at full cell size. Longer ranges would
+ * wrap the grid, so the card draws them as a per-year stack instead.
+ */
+export function fitsActivityHeatmap(range: AmpDateRange, timeZone: string): boolean {
+  return generateWeeksForRange(range, timeZone).length <= MAX_WEEKS;
+}
+
+export function AmpActivityHeatmap({ dailyActivity, range, timeZone, maxStreakDays, colors }: HeatmapProps) {
+  const weeks = generateWeeksForRange(range, timeZone);
 
   const counts = Array.from(dailyActivity.values());
   const maxCount = counts.length > 0 ? Math.max(...counts) : 0;
 
-  const monthLabels = getMonthLabels(weeks, CELL_SIZE, CELL_GAP);
+  const monthLabels = getMonthLabels(weeks, CELL.size, CELL.gap);
 
   return (
     <div
@@ -37,14 +60,174 @@ export function AmpActivityHeatmap({ dailyActivity, year, maxStreakDays }: Heatm
         gap: ampSpacing[2],
       }}
     >
-      <MonthLabelsRow labels={monthLabels} />
-      <HeatmapGrid weeks={weeks} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
-      <HeatmapLegend />
+      <MonthLabelsRow labels={monthLabels} colors={colors} />
+      <HeatmapGrid
+        weeks={weeks}
+        dailyActivity={dailyActivity}
+        maxStreakDays={maxStreakDays}
+        maxCount={maxCount}
+        cell={CELL}
+        colors={colors}
+      />
+      <HeatmapLegend colors={colors} />
     </div>
   );
 }
 
-function MonthLabelsRow({ labels }: { labels: MonthLabel[] }) {
+interface YearlyHeatmapStackProps {
+  dailyActivity: Map<string, number>;
+  range: AmpDateRange;
+  yearlyTotals: AmpYearlyTotals[];
+  metric: AmpHeatmapMetric;
+  timeZone: string;
+  maxStreakDays?: Set<string>;
+  colors: AmpColors;
+}
+
+/**
+ * The heatmap for ranges longer than a year: one compact row per calendar
+ * year, newest first, each beside a bar of that year's total. Every row
+ * shares one intensity scale, so quiet years look quiet next to busy ones.
+ */
+export function AmpYearlyHeatmapStack({
+  dailyActivity,
+  range,
+  yearlyTotals,
+  metric,
+  timeZone,
+  maxStreakDays,
+  colors,
+}: YearlyHeatmapStackProps) {
+  const counts = Array.from(dailyActivity.values());
+  const maxCount = counts.length > 0 ? Math.max(...counts) : 0;
+  const maxYearCount = Math.max(...yearlyTotals.map((year) => year.count));
+
+  const years = [...yearlyTotals].reverse();
+  // Years start on different weekdays, so the labels follow the newest year and may be off by a column for the others
+  const monthLabels = getYearMonthLabels(years[0].year, YEARLY_CELL);
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: ampSpacing[2],
+      }}
+    >
+      <div style={{ display: "flex", paddingLeft: YEAR_LABEL_WIDTH }}>
+        <MonthLabelsRow labels={monthLabels} colors={colors} />
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", gap: YEAR_ROW_GAP }}>
+        {years.map((year) => (
+          <YearRow
+            key={year.year}
+            year={year}
+            metric={metric}
+            weeks={getYearWeeks(year.year, range, timeZone)}
+            dailyActivity={dailyActivity}
+            maxStreakDays={maxStreakDays}
+            maxCount={maxCount}
+            share={maxYearCount > 0 ? year.count / maxYearCount : 0}
+            colors={colors}
+          />
+        ))}
+      </div>
+      <HeatmapLegend colors={colors} />
+    </div>
+  );
+}
+
+/**
+ * A calendar year's week columns, with the days outside the report range left
+ * blank, so rows for partly covered years line up with the full ones
+ */
+export function getYearWeeks(year: number, range: AmpDateRange, timeZone: string): string[][] {
+  return generateWeeksForRange(yearRange(year), timeZone).map((week) =>
+    week.map((dateKey) => (dateKey >= range.start && dateKey <= range.end ? dateKey : ""))
+  );
+}
+
+function getGridHeight(cell: CellStyle): number {
+  return 7 * cell.size + 6 * cell.gap;
+}
+
+// Rows keep the width of a full year, so the current year's bar lines up with the others
+function getGridWidth(cell: CellStyle): number {
+  return MAX_WEEKS * cell.size + (MAX_WEEKS - 1) * cell.gap;
+}
+
+interface YearRowProps {
+  year: AmpYearlyTotals;
+  metric: AmpHeatmapMetric;
+  weeks: (string | null)[][];
+  dailyActivity: Map<string, number>;
+  maxStreakDays?: Set<string>;
+  maxCount: number;
+  share: number;
+  colors: AmpColors;
+}
+
+function YearRow({ year, metric, weeks, dailyActivity, maxStreakDays, maxCount, share, colors }: YearRowProps) {
+  return (
+    <div style={{ display: "flex", flexDirection: "row", alignItems: "center" }}>
+      <span
+        style={{
+          width: YEAR_LABEL_WIDTH,
+          fontSize: ampTypography.size.lg,
+          fontWeight: ampTypography.weight.bold,
+          color: colors.text.primary,
+        }}
+      >
+        {year.year}
+      </span>
+      <div style={{ display: "flex", width: getGridWidth(YEARLY_CELL), height: getGridHeight(YEARLY_CELL) }}>
+        <HeatmapGrid
+          weeks={weeks}
+          dailyActivity={dailyActivity}
+          maxStreakDays={maxStreakDays}
+          maxCount={maxCount}
+          cell={YEARLY_CELL}
+          colors={colors}
+        />
+      </div>
+      <div
+        style={{
+          flex: 1,
+          display: "flex",
+          flexDirection: "column",
+          gap: ampSpacing[2],
+          marginLeft: ampSpacing[8],
+        }}
+      >
+        <span style={{ fontSize: ampTypography.size.md, fontWeight: ampTypography.weight.medium, color: colors.text.primary }}>
+          {`${formatNumber(year.count)} ${metric}`}
+        </span>
+        <div
+          style={{
+            display: "flex",
+            height: YEAR_BAR_HEIGHT,
+            backgroundColor: colors.surface,
+            borderRadius: ampLayout.radius.full,
+          }}
+        >
+          <div
+            style={{
+              width: `${Math.max(share * 100, year.count > 0 ? 2 : 0)}%`,
+              height: YEAR_BAR_HEIGHT,
+              backgroundColor: share === 1 ? colors.accent.primary : colors.heatmap.level6,
+              borderRadius: ampLayout.radius.full,
+            }}
+          />
+        </div>
+        <span style={{ fontSize: ampTypography.size.sm, color: colors.text.tertiary }}>
+          {`${year.activeDays} active days · ${year.maxStreak}d streak`}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function MonthLabelsRow({ labels, colors }: { labels: MonthLabel[]; colors: AmpColors }) {
   return (
     <div
       style={{
@@ -63,7 +246,7 @@ function MonthLabelsRow({ labels }: { labels: MonthLabel[] }) {
             left: x,
             fontSize: ampTypography.size.sm,
             fontWeight: ampTypography.weight.medium,
-            color: ampColors.text.muted,
+            color: colors.text.muted,
             fontFamily: ampTypography.fontFamily.mono,
           }}
         >
@@ -79,21 +262,31 @@ interface HeatmapGridProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cell: CellStyle;
+  colors: AmpColors;
 }
 
-function HeatmapGrid({ weeks, dailyActivity, maxStreakDays, maxCount }: HeatmapGridProps) {
+function HeatmapGrid({ weeks, dailyActivity, maxStreakDays, maxCount, cell, colors }: HeatmapGridProps) {
   return (
     <div
       style={{
         display: "flex",
         flexDirection: "row",
-        gap: CELL_GAP,
+        gap: cell.gap,
         flexWrap: "wrap",
         maxWidth: "100%",
       }}
     >
       {weeks.map((week, weekIndex) => (
-        <WeekColumn key={weekIndex} week={week} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
+        <WeekColumn
+          key={weekIndex}
+          week={week}
+          dailyActivity={dailyActivity}
+          maxStreakDays={maxStreakDays}
+          maxCount={maxCount}
+          cell={cell}
+          colors={colors}
+        />
       ))}
     </div>
   );
@@ -104,19 +297,29 @@ interface WeekColumnProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cell: CellStyle;
+  colors: AmpColors;
 }
 
-function WeekColumn({ week, dailyActivity, maxStreakDays, maxCount }: WeekColumnProps) {
+function WeekColumn({ week, dailyActivity, maxStreakDays, maxCount, cell, colors }: WeekColumnProps) {
   return (
     <div
       style={{
         display: "flex",
         flexDirection: "column",
-        gap: CELL_GAP,
+        gap: cell.gap,
       }}
     >
       {week.map((dateStr, dayIndex) => (
-        <DayCell key={dayIndex} dateStr={dateStr} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
+        <DayCell
+          key={dayIndex}
+          dateStr={dateStr}
+          dailyActivity={dailyActivity}
+          maxStreakDays={maxStreakDays}
+          maxCount={maxCount}
+          cell={cell}
+          colors={colors}
+        />
       ))}
     </div>
   );
@@ -127,22 +330,23 @@ interface DayCellProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cell: CellStyle;
+  colors: AmpColors;
 }
 
-function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount }: DayCellProps) {
+function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount, cell, colors }: DayCellProps) {
   const count = dateStr ? dailyActivity.get(dateStr) || 0 : 0;
-  const intensity = getIntensityLevel(count, maxCount) as keyof typeof AMP_HEATMAP_COLORS;
-  const isStreakDay = dateStr && maxStreakDays?.has(dateStr);
-  const colorPalette = isStreakDay ? AMP_STREAK_COLORS : AMP_HEATMAP_COLORS;
-  const color = colorPalette[intensity];
+  const intensity = getIntensityLevel(count, maxCount);
+  const isStreakDay = dateStr !== null && maxStreakDays?.has(dateStr) === true;
+  const color = getHeatmapColors(colors, isStreakDay)[intensity];
 
   return (
     <div
       style={{
-        width: CELL_SIZE,
-        height: CELL_SIZE,
+        width: cell.size,
+        height: cell.size,
         backgroundColor: dateStr ? color : "transparent",
-        borderRadius: CELL_RADIUS,
+        borderRadius: cell.borderRadius,
         display: "flex",
         alignItems: "center",
         justifyContent: "center",
@@ -151,7 +355,7 @@ function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount }: DayCellPro
   );
 }
 
-function HeatmapLegend() {
+function HeatmapLegend({ colors }: { colors: AmpColors }) {
   return (
     <div
       style={{
@@ -166,7 +370,7 @@ function HeatmapLegend() {
         style={{
           fontSize: ampComponents.legend.fontSize,
           fontWeight: ampTypography.weight.medium,
-          color: ampComponents.legend.color,
+          color: colors.text.muted,
           fontFamily: ampTypography.fontFamily.mono,
         }}
       >
@@ -180,13 +384,13 @@ function HeatmapLegend() {
           gap: LEGEND_GAP,
         }}
       >
-        {(Object.keys(AMP_HEATMAP_COLORS) as unknown as (keyof typeof AMP_HEATMAP_COLORS)[]).map((intensity) => (
+        {getHeatmapColors(colors).map((color, intensity) => (
           <div
             key={intensity}
             style={{
               width: LEGEND_CELL_SIZE,
               height: LEGEND_CELL_SIZE,
-              backgroundColor: AMP_HEATMAP_COLORS[intensity],
+              backgroundColor: color,
               borderRadius: 3,
             }}
           />
@@ -197,7 +401,7 @@ function HeatmapLegend() {
         style={{
           fontSize: ampComponents.legend.fontSize,
           fontWeight: ampTypography.weight.medium,
-          color: ampComponents.legend.color,
+          color: colors.text.muted,
           fontFamily: ampTypography.fontFamily.mono,
         }}
       >
@@ -207,6 +411,22 @@ function HeatmapLegend() {
   );
 }
 
+/**
+ * Labels for a full January to December, even for a year that isn't over
+ * yet, placed like getMonthLabels: over the first week column whose top cell
+ * falls in the month
+ */
+function getYearMonthLabels(year: number, cell: CellStyle): MonthLabel[] {
+  const firstDay = `${year}-01-01`;
+  const offset = getWeekday(firstDay);
+
+  return MONTHS.map((_, month) => {
+    const daysIn = daysBetween(firstDay, `${year}-${String(month + 1).padStart(2, "0")}-01`);
+    const weekIndex = month === 0 ? 0 : Math.ceil((offset + daysIn) / 7);
+    return { month, x: weekIndex * (cell.size + cell.gap) };
+  });
+}
+
 function getMonthLabels(weeks: (string | null)[][], cellSize: number, gap: number): MonthLabel[] {
   const labels: MonthLabel[] = [];
   let lastMonth = -1;
@@ -1,25 +1,28 @@
-import type { AmpCodeStats, AmpWeekdayActivity } from "../types";
-import { formatNumberFull, formatDate } from "../utils/format";
-import { AmpActivityHeatmap } from "./heatmap";
-import { ampColors, ampTypography, ampSpacing, ampLayout, ampComponents } from "./design-tokens";
+import type { AmpCodeStats, AmpHeatmapMetric, AmpHourlyActivity, AmpWeekdayActivity } from "../types";
+import { formatNumberFull, formatDate, formatEditReadRatio, truncateText } from "../utils/format";
+import { getProviderLogoUrl } from "../models";
+import { AmpActivityHeatmap, AmpYearlyHeatmapStack, fitsActivityHeatmap } from "./heatmap";
+import { ampTypography, ampSpacing, ampLayout, ampComponents, type AmpColors } from "./design-tokens";
 import ampLogo from "../../assets/images/amp-logo-color.svg" with { type: "text" };
 import ampTextSvg from "../../assets/images/amp-text-light.svg" with { type: "text" };
 
 const AMP_LOGO_DATA_URL = `data:image/svg+xml;base64,${Buffer.from(ampLogo).toString("base64")}`;
-// Make the text white for dark background
-const ampTextWhite = ampTextSvg.replace('fill="#000000"', 'fill="#FFFFFF"');
-const AMP_TEXT_DATA_URL = `data:image/svg+xml;base64,${Buffer.from(ampTextWhite).toString("base64")}`;
 
-export function AmpWrappedTemplate({ stats }: { stats: AmpCodeStats }) {
+// The wordmark is black; it takes the theme's primary text color
+function getAmpTextDataUrl(colors: AmpColors): string {
+  const svg = ampTextSvg.replace('fill="#000000"', `fill="${colors.text.primary}"`);
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
+
+export function AmpWrappedTemplate({ stats, colors }: { stats: AmpCodeStats; colors: AmpColors }) {
   return (
     <div
       style={{
         width: ampLayout.canvas.width,
-        height: ampLayout.canvas.height,
         display: "flex",
         flexDirection: "column",
-        backgroundColor: ampColors.background,
-        color: ampColors.text.primary,
+        backgroundColor: colors.background,
+        color: colors.text.primary,
         fontFamily: ampTypography.fontFamily.mono,
         paddingLeft: ampLayout.padding.horizontal,
         paddingRight: ampLayout.padding.horizontal,
@@ -29,99 +32,184 @@ export function AmpWrappedTemplate({ stats }: { stats: AmpCodeStats }) {
         overflow: "hidden",
       }}
     >
-      {/* Decorative circles */}
-      <div
-        style={{
-          position: "absolute",
-          top: -180,
-          right: -120,
-          width: 520,
-          height: 520,
-          backgroundColor: ampColors.accent.primary,
-          opacity: 0.15,
-          borderRadius: ampLayout.radius.full,
-        }}
-      />
-      <div
-        style={{
-          position: "absolute",
-          bottom: -220,
-          left: -140,
-          width: 620,
-          height: 620,
-          backgroundColor: ampColors.accent.secondary,
-          opacity: 0.10,
-          borderRadius: ampLayout.radius.full,
-        }}
-      />
+      <CardBackground colors={colors} />
 
-      <Header year={stats.year} />
+      <Header label={stats.range.label} colors={colors} />
 
       <div style={{ marginTop: ampSpacing[8], display: "flex", flexDirection: "row", gap: ampSpacing[16], alignItems: "flex-start" }}>
         <HeroStatItem
           label="Started"
-          subtitle={formatDate(stats.firstSessionDate)}
+          subtitle={formatDate(stats.firstSessionDate, stats.timeZone)}
           value={`${stats.daysSinceFirstSession} Days Ago`}
+          colors={colors}
         />
         <HeroStatItem
           label="Most Active Day"
           subtitle={stats.weekdayActivity.mostActiveDayName}
           value={stats.mostActiveDay?.formattedDate ?? "N/A"}
+          colors={colors}
         />
 
         <div
           style={{
             display: "flex",
             flexDirection: "column",
-            backgroundColor: ampColors.surface,
+            backgroundColor: colors.surface,
             borderRadius: ampLayout.radius.lg,
             padding: ampSpacing[8],
-            border: `1px solid ${ampColors.surfaceBorder}`,
+            border: `1px solid ${colors.surfaceBorder}`,
           }}
         >
           <span
             style={{
               fontSize: ampComponents.sectionHeader.fontSize,
               fontWeight: ampComponents.sectionHeader.fontWeight,
-              color: ampComponents.sectionHeader.color,
+              color: colors.text.secondary,
               letterSpacing: ampComponents.sectionHeader.letterSpacing,
               textTransform: ampComponents.sectionHeader.textTransform,
             }}
           >
             Weekly
           </span>
-          <WeeklyBarChart weekdayActivity={stats.weekdayActivity} />
+          <WeeklyBarChart weekdayActivity={stats.weekdayActivity} colors={colors} />
         </div>
       </div>
 
-      <Section title="Activity" marginTop={ampSpacing[8]}>
-        <AmpActivityHeatmap dailyActivity={stats.dailyActivity} year={stats.year} maxStreakDays={stats.maxStreakDays} />
-      </Section>
+      {showsYearlyStack(stats) ? (
+        <Section
+          title={`${getActivityTitle(stats.heatmapMetric)} · ${stats.maxStreak}d longest streak · ${stats.currentStreak}d current`}
+          marginTop={ampSpacing[8]}
+          colors={colors}
+        >
+          <AmpYearlyHeatmapStack
+            dailyActivity={stats.dailyActivity}
+            range={stats.range}
+            yearlyTotals={stats.yearlyTotals}
+            metric={stats.heatmapMetric}
+            timeZone={stats.timeZone}
+            maxStreakDays={stats.maxStreakDays}
+            colors={colors}
+          />
+        </Section>
+      ) : (
+        <Section title={getActivityTitle(stats.heatmapMetric)} marginTop={ampSpacing[8]} colors={colors}>
+          <AmpActivityHeatmap
+            dailyActivity={stats.dailyActivity}
+            range={stats.range}
+            timeZone={stats.timeZone}
+            maxStreakDays={stats.maxStreakDays}
+            colors={colors}
+          />
+        </Section>
+      )}
 
       <div
         style={{
           marginTop: ampSpacing[8],
           display: "flex",
           flexDirection: "row",
-          gap: ampSpacing[16],
+          gap: ampSpacing[8],
         }}
       >
         <RankingList
           title="Top Models"
-          items={stats.topModels.map((m) => ({
-            name: m.name,
-          }))}
+          items={buildShareItems(
+            stats.topModels.map((m) => ({ name: m.name, share: m.percentage, logoUrl: getProviderLogoUrl(m.providerId) })),
+            stats.totalTokens
+          )}
+          colors={colors}
         />
-        <InsightCard stats={stats} />
+        {stats.topProjects.length > 0 && (
+          <RankingList
+            title="Top Projects"
+            items={stats.topProjects.map((project) => ({
+              name: truncateText(project.name, RANKING_NAME_MAX_CHARS),
+            }))}
+            colors={colors}
+          />
+        )}
+        {stats.toolUsage.topTools.length > 0 && (
+          <RankingList
+            title="Top Tools"
+            items={stats.toolUsage.topTools.map((tool) => ({
+              name: truncateText(tool.name, RANKING_NAME_MAX_CHARS),
+            }))}
+            colors={colors}
+          />
+        )}
       </div>
 
-      <StatsGrid stats={stats} />
-      <Footer />
+      <div style={{ marginTop: ampSpacing[8], display: "flex", flexDirection: "row", gap: ampSpacing[8] }}>
+        {stats.hourlyActivity.maxCount > 0 && <HourlyActivityChart hourlyActivity={stats.hourlyActivity} colors={colors} />}
+        {stats.topProviders.length > 0 && (
+          <RankingList
+            title="Top Providers"
+            items={buildShareItems(
+              // Unattributed usage is counted in the Other row
+              stats.topProviders
+                .filter((provider) => provider.id !== "unknown")
+                .map((provider) => ({ name: provider.name, share: provider.percentage, logoUrl: getProviderLogoUrl(provider.id) })),
+              stats.totalTokens
+            )}
+            colors={colors}
+          />
+        )}
+        <InsightCard stats={stats} colors={colors} />
+      </div>
+
+      <StatsGrid stats={stats} colors={colors} />
+      <Footer colors={colors} />
     </div>
   );
 }
 
-function Header({ year }: { year: number }) {
+// All-time cards that span several years, and ranges too long for one heatmap, stack a heatmap per year
+function showsYearlyStack(stats: AmpCodeStats): boolean {
+  if (stats.yearlyTotals.length < 2) return false;
+  return stats.range.kind === "all" || !fitsActivityHeatmap(stats.range, stats.timeZone);
+}
+
+/**
+ * Decorative accent circles behind the card's content. The card's root must be
+ * `position: relative` with `overflow: hidden`.
+ */
+export function CardBackground({ colors }: { colors: AmpColors }) {
+  return (
+    <>
+      <div
+        style={{
+          position: "absolute",
+          top: -180,
+          right: -120,
+          width: 520,
+          height: 520,
+          backgroundColor: colors.accent.primary,
+          opacity: 0.15,
+          borderRadius: ampLayout.radius.full,
+        }}
+      />
+      <div
+        style={{
+          position: "absolute",
+          bottom: -220,
+          left: -140,
+          width: 620,
+          height: 620,
+          backgroundColor: colors.accent.secondary,
+          opacity: 0.10,
+          borderRadius: ampLayout.radius.full,
+        }}
+      />
+    </>
+  );
+}
+
+// Longer range labels ("Jan 5 – Mar 3, 2026") step down a size to fit beside the logo
+const HEADER_LABEL_MAX_CHARS = 12;
+
+export function Header({ label, colors }: { label: string; colors: AmpColors }) {
+  const headerSize = label.length > HEADER_LABEL_MAX_CHARS ? ampTypography.size["2xl"] : ampTypography.size["3xl"];
+
   return (
     <div
       style={{
@@ -148,7 +236,7 @@ function Header({ year }: { year: number }) {
             }}
           />
           <img
-            src={AMP_TEXT_DATA_URL}
+            src={getAmpTextDataUrl(colors)}
             height={56}
             style={{
               objectFit: "contain",
@@ -166,10 +254,10 @@ function Header({ year }: { year: number }) {
         >
           <span
             style={{
-              fontSize: ampTypography.size["3xl"],
+              fontSize: headerSize,
               fontWeight: ampTypography.weight.medium,
               letterSpacing: ampTypography.letterSpacing.normal,
-              color: ampColors.text.tertiary,
+              color: colors.text.tertiary,
               lineHeight: ampTypography.lineHeight.none,
             }}
           >
@@ -177,14 +265,14 @@ function Header({ year }: { year: number }) {
           </span>
           <span
             style={{
-              fontSize: ampTypography.size["3xl"],
+              fontSize: headerSize,
               fontWeight: ampTypography.weight.bold,
               letterSpacing: ampTypography.letterSpacing.normal,
-              color: ampColors.accent.primary,
+              color: colors.accent.primary,
               lineHeight: ampTypography.lineHeight.none,
             }}
           >
-            {year}
+            {label}
           </span>
         </div>
       </div>
@@ -199,25 +287,35 @@ const BAR_GAP = 12;
 
 const HERO_STAT_CONTENT_HEIGHT = BAR_HEIGHT + ampSpacing[2] + 50;
 
-function HeroStatItem({ label, subtitle, value }: { label: string; subtitle?: string; value: string }) {
+function HeroStatItem({
+  label,
+  subtitle,
+  value,
+  colors,
+}: {
+  label: string;
+  subtitle?: string;
+  value: string;
+  colors: AmpColors;
+}) {
   return (
     <div
       style={{
         display: "flex",
         flexDirection: "column",
         justifyContent: "space-between",
-        backgroundColor: ampColors.surface,
+        backgroundColor: colors.surface,
         borderRadius: ampLayout.radius.lg,
         padding: ampSpacing[8],
         height: HERO_STAT_CONTENT_HEIGHT + ampSpacing[8] * 2,
-        border: `1px solid ${ampColors.surfaceBorder}`,
+        border: `1px solid ${colors.surfaceBorder}`,
       }}
     >
       <span
         style={{
           fontSize: ampComponents.sectionHeader.fontSize,
           fontWeight: ampComponents.sectionHeader.fontWeight,
-          color: ampComponents.sectionHeader.color,
+          color: colors.text.secondary,
           letterSpacing: ampComponents.sectionHeader.letterSpacing,
           textTransform: ampComponents.sectionHeader.textTransform,
         }}
@@ -229,7 +327,7 @@ function HeroStatItem({ label, subtitle, value }: { label: string; subtitle?: st
           style={{
             fontSize: ampTypography.size['xl'],
             fontWeight: ampTypography.weight.medium,
-            color: ampColors.text.tertiary,
+            color: colors.text.tertiary,
           }}
         >
           {subtitle}
@@ -239,7 +337,7 @@ function HeroStatItem({ label, subtitle, value }: { label: string; subtitle?: st
         style={{
           fontSize: ampTypography.size["4xl"],
           fontWeight: ampTypography.weight.medium,
-          color: ampColors.text.primary,
+          color: colors.text.primary,
           lineHeight: ampTypography.lineHeight.none,
         }}
       >
@@ -249,7 +347,7 @@ function HeroStatItem({ label, subtitle, value }: { label: string; subtitle?: st
   );
 }
 
-function WeeklyBarChart({ weekdayActivity }: { weekdayActivity: AmpWeekdayActivity }) {
+function WeeklyBarChart({ weekdayActivity, colors }: { weekdayActivity: AmpWeekdayActivity; colors: AmpColors }) {
   const { counts, mostActiveDay, maxCount } = weekdayActivity;
 
   return (
@@ -274,7 +372,7 @@ function WeeklyBarChart({ weekdayActivity }: { weekdayActivity: AmpWeekdayActivi
               style={{
                 width: BAR_WIDTH,
                 height: barHeight,
-                backgroundColor: isHighlighted ? ampColors.accent.primary : ampColors.heatmap.level4,
+                backgroundColor: isHighlighted ? colors.accent.primary : colors.heatmap.level4,
                 borderRadius: 4,
               }}
             />
@@ -300,7 +398,7 @@ function WeeklyBarChart({ weekdayActivity }: { weekdayActivity: AmpWeekdayActivi
                 justifyContent: "center",
                 fontSize: ampTypography.size.sm,
                 fontWeight: isHighlighted ? ampTypography.weight.bold : ampTypography.weight.regular,
-                color: isHighlighted ? ampColors.accent.primary : ampColors.text.muted,
+                color: isHighlighted ? colors.accent.primary : colors.text.muted,
               }}
             >
               {label}
@@ -312,7 +410,132 @@ function WeeklyBarChart({ weekdayActivity }: { weekdayActivity: AmpWeekdayActivi
   );
 }
 
-function Section({ title, marginTop = 0, children }: { title: string; marginTop?: number; children: React.ReactNode }) {
+const HOUR_BAR_HEIGHT = 100;
+const HOUR_BAR_WIDTH = 12;
+const HOUR_BAR_GAP = 4;
+const HOUR_LABELS = [
+  { hour: 0, label: "12a" },
+  { hour: 6, label: "6a" },
+  { hour: 12, label: "12p" },
+  { hour: 18, label: "6p" },
+];
+
+function HourlyActivityChart({ hourlyActivity, colors }: { hourlyActivity: AmpHourlyActivity; colors: AmpColors }) {
+  const { counts, peakHour, maxCount, chronotype } = hourlyActivity;
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: ampSpacing[4],
+        flex: 1,
+        backgroundColor: colors.surface,
+        border: `1px solid ${colors.surfaceBorder}`,
+        borderRadius: ampLayout.radius.lg,
+        padding: ampSpacing[6],
+      }}
+    >
+      {/* The chronotype gets its own line; names like "Evening Hacker" don't fit beside the title */}
+      <div style={{ display: "flex", flexDirection: "column", gap: ampSpacing[2] }}>
+        <span
+          style={{
+            fontSize: ampComponents.sectionHeader.fontSize,
+            fontWeight: ampComponents.sectionHeader.fontWeight,
+            color: colors.text.secondary,
+            letterSpacing: ampComponents.sectionHeader.letterSpacing,
+            textTransform: ampComponents.sectionHeader.textTransform,
+          }}
+        >
+          Daily Rhythm
+        </span>
+        {chronotype && (
+          <span
+            style={{
+              fontSize: ampTypography.size.lg,
+              fontWeight: ampTypography.weight.bold,
+              color: colors.accent.primary,
+            }}
+          >
+            {chronotype.name}
+          </span>
+        )}
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "row",
+          alignItems: "flex-end",
+          gap: HOUR_BAR_GAP,
+          height: HOUR_BAR_HEIGHT,
+        }}
+      >
+        {counts.map((count, hour) => {
+          const heightPercent = maxCount > 0 ? count / maxCount : 0;
+          const barHeight = Math.max(4, Math.round(heightPercent * HOUR_BAR_HEIGHT));
+
+          return (
+            <div
+              key={hour}
+              style={{
+                width: HOUR_BAR_WIDTH,
+                height: barHeight,
+                backgroundColor: hour === peakHour ? colors.accent.primary : colors.heatmap.level4,
+                borderRadius: 3,
+              }}
+            />
+          );
+        })}
+      </div>
+
+      <div style={{ display: "flex", position: "relative", height: 18 }}>
+        {HOUR_LABELS.map(({ hour, label }) => (
+          <span
+            key={hour}
+            style={{
+              position: "absolute",
+              left: hour * (HOUR_BAR_WIDTH + HOUR_BAR_GAP),
+              fontSize: ampTypography.size.sm,
+              color: colors.text.muted,
+            }}
+          >
+            {label}
+          </span>
+        ))}
+      </div>
+
+      {chronotype && (
+        <span
+          style={{
+            fontSize: ampTypography.size.sm,
+            fontWeight: ampTypography.weight.medium,
+            color: colors.text.tertiary,
+          }}
+        >
+          {chronotype.description}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// Messages are the default heatmap metric, so only other metrics are named in the title
+function getActivityTitle(metric: AmpHeatmapMetric): string {
+  return metric === "messages" ? "Activity" : `Activity · ${metric}`;
+}
+
+function Section({
+  title,
+  marginTop = 0,
+  colors,
+  children,
+}: {
+  title: string;
+  marginTop?: number;
+  colors: AmpColors;
+  children: React.ReactNode;
+}) {
   return (
     <div
       style={{
@@ -326,7 +549,7 @@ function Section({ title, marginTop = 0, children }: { title: string; marginTop?
         style={{
           fontSize: ampComponents.sectionHeader.fontSize,
           fontWeight: ampComponents.sectionHeader.fontWeight,
-          color: ampComponents.sectionHeader.color,
+          color: colors.text.secondary,
           letterSpacing: ampComponents.sectionHeader.letterSpacing,
           textTransform: ampComponents.sectionHeader.textTransform,
         }}
@@ -338,12 +561,42 @@ function Section({ title, marginTop = 0, children }: { title: string; marginTop?
   );
 }
 
+// Cards sit three to a row, so long names are cut to fit a card
+const RANKING_NAME_MAX_CHARS = 18;
+
 interface RankingItem {
   name: string;
   logoUrl?: string;
+  /** Share of the total, 0-100, drawn as a bar under the name */
+  share?: number;
+  /** Shown without a rank, e.g. the Other row */
+  unranked?: boolean;
+}
+
+// Models and providers past the first few are summed into an "Other" row
+const SHARE_MAX_ROWS = 3;
+// Below this the Other row is just floating point noise
+const OTHER_MIN_SHARE = 0.05;
+
+/**
+ * Rank the first few items and sum the rest of the total into "Other", so
+ * the bars always add up to 100%
+ */
+function buildShareItems(items: RankingItem[], total: number): RankingItem[] {
+  const shown = items.slice(0, SHARE_MAX_ROWS).map((item) => ({
+    ...item,
+    name: truncateText(item.name, RANKING_NAME_MAX_CHARS),
+  }));
+
+  const otherShare = 100 - shown.reduce((sum, item) => sum + (item.share ?? 0), 0);
+  if (total > 0 && otherShare >= OTHER_MIN_SHARE) {
+    shown.push({ name: "Other", share: otherShare, unranked: true });
+  }
+
+  return shown;
 }
 
-function RankingList({ title, items }: { title: string; items: RankingItem[] }) {
+function RankingList({ title, items, colors }: { title: string; items: RankingItem[]; colors: AmpColors }) {
   return (
     <div
       style={{
@@ -351,8 +604,8 @@ function RankingList({ title, items }: { title: string; items: RankingItem[] })
         flexDirection: "column",
         gap: ampSpacing[5],
         flex: 1,
-        backgroundColor: ampColors.surface,
-        border: `1px solid ${ampColors.surfaceBorder}`,
+        backgroundColor: colors.surface,
+        border: `1px solid ${colors.surfaceBorder}`,
         borderRadius: ampLayout.radius.lg,
         padding: ampSpacing[6],
       }}
@@ -361,7 +614,7 @@ function RankingList({ title, items }: { title: string; items: RankingItem[] })
         style={{
           fontSize: ampComponents.sectionHeader.fontSize,
           fontWeight: ampComponents.sectionHeader.fontWeight,
-          color: ampComponents.sectionHeader.color,
+          color: colors.text.secondary,
           letterSpacing: ampComponents.sectionHeader.letterSpacing,
           textTransform: ampComponents.sectionHeader.textTransform,
         }}
@@ -376,14 +629,21 @@ function RankingList({ title, items }: { title: string; items: RankingItem[] })
         }}
       >
         {items.map((item, i) => (
-          <RankingItemRow key={i} rank={i + 1} name={item.name} logoUrl={item.logoUrl} />
+          <RankingItemRow
+            key={i}
+            rank={item.unranked ? undefined : i + 1}
+            name={item.name}
+            logoUrl={item.logoUrl}
+            share={item.share}
+            colors={colors}
+          />
         ))}
       </div>
     </div>
   );
 }
 
-function InsightCard({ stats }: { stats: AmpCodeStats }) {
+function InsightCard({ stats, colors }: { stats: AmpCodeStats; colors: AmpColors }) {
   const insights = [
     stats.totalCacheReadTokens > 0 && {
       label: "Cache Read",
@@ -397,6 +657,18 @@ function InsightCard({ stats }: { stats: AmpCodeStats }) {
       label: "Credits Used",
       value: stats.totalCredits.toFixed(2),
     },
+    stats.toolUsage.totalCalls > 0 && {
+      label: "Tool Calls",
+      value: formatNumberFull(stats.toolUsage.totalCalls),
+    },
+    stats.toolUsage.categoryCounts.edit > 0 && {
+      label: "Edits per Read",
+      value: formatEditReadRatio(stats.toolUsage.editReadRatio, stats.toolUsage.categoryCounts.edit),
+    },
+    stats.toolUsage.commandsRun > 0 && {
+      label: "Commands Run",
+      value: formatNumberFull(stats.toolUsage.commandsRun),
+    },
   ].filter(Boolean) as Array<{ label: string; value: string }>;
 
   return (
@@ -406,8 +678,8 @@ function InsightCard({ stats }: { stats: AmpCodeStats }) {
         flexDirection: "column",
         gap: ampSpacing[5],
         flex: 1,
-        backgroundColor: ampColors.surface,
-        border: `1px solid ${ampColors.surfaceBorder}`,
+        backgroundColor: colors.surface,
+        border: `1px solid ${colors.surfaceBorder}`,
         borderRadius: ampLayout.radius.lg,
         padding: ampSpacing[6],
       }}
@@ -416,7 +688,7 @@ function InsightCard({ stats }: { stats: AmpCodeStats }) {
         style={{
           fontSize: ampComponents.sectionHeader.fontSize,
           fontWeight: ampComponents.sectionHeader.fontWeight,
-          color: ampComponents.sectionHeader.color,
+          color: colors.text.secondary,
           letterSpacing: ampComponents.sectionHeader.letterSpacing,
           textTransform: ampComponents.sectionHeader.textTransform,
         }}
@@ -438,7 +710,7 @@ function InsightCard({ stats }: { stats: AmpCodeStats }) {
               style={{
                 fontSize: ampTypography.size.md,
                 fontWeight: ampTypography.weight.medium,
-                color: ampColors.text.tertiary,
+                color: colors.text.tertiary,
               }}
             >
               {item.label}
@@ -447,7 +719,7 @@ function InsightCard({ stats }: { stats: AmpCodeStats }) {
               style={{
                 fontSize: ampTypography.size.md,
                 fontWeight: ampTypography.weight.semibold,
-                color: ampColors.text.primary,
+                color: colors.text.primary,
               }}
             >
               {item.value}
@@ -460,12 +732,14 @@ function InsightCard({ stats }: { stats: AmpCodeStats }) {
 }
 
 interface RankingItemRowProps {
-  rank: number;
+  rank?: number;
   name: string;
   logoUrl?: string;
+  share?: number;
+  colors: AmpColors;
 }
 
-function RankingItemRow({ rank, name, logoUrl }: RankingItemRowProps) {
+function RankingItemRow({ rank, name, logoUrl, share, colors }: RankingItemRowProps) {
   return (
     <div
       style={{
@@ -478,7 +752,7 @@ function RankingItemRow({ rank, name, logoUrl }: RankingItemRowProps) {
         style={{
           fontSize: ampComponents.ranking.numberSize,
           fontWeight: ampTypography.weight.bold,
-          color: ampColors.text.tertiary,
+          color: colors.text.tertiary,
           width: ampComponents.ranking.numberWidth,
           textAlign: "right",
         }}
@@ -486,7 +760,7 @@ function RankingItemRow({ rank, name, logoUrl }: RankingItemRowProps) {
         {rank}
       </span>
 
-      {logoUrl && (
+      {logoUrl ? (
         <img
           src={logoUrl}
           width={ampComponents.ranking.logoSize}
@@ -496,22 +770,56 @@ function RankingItemRow({ rank, name, logoUrl }: RankingItemRowProps) {
             background: "#ffffff",
           }}
         />
+      ) : (
+        // Keeps unranked rows like Other in line with the logos above them
+        rank === undefined && (
+          <div
+            style={{
+              width: ampComponents.ranking.logoSize,
+              height: ampComponents.ranking.logoSize,
+              borderRadius: ampComponents.ranking.logoBorderRadius,
+              backgroundColor: colors.surfaceBorder,
+            }}
+          />
+        )
       )}
 
-      <span
-        style={{
-          fontSize: ampComponents.ranking.itemSize,
-          fontWeight: ampTypography.weight.medium,
-          color: ampColors.text.primary,
-        }}
-      >
-        {name}
-      </span>
+      <div style={{ display: "flex", flexDirection: "column", gap: ampSpacing[2], flex: 1 }}>
+        <span
+          style={{
+            fontSize: ampComponents.ranking.itemSize,
+            fontWeight: ampTypography.weight.medium,
+            color: rank === undefined ? colors.text.tertiary : colors.text.primary,
+          }}
+        >
+          {name}
+        </span>
+
+        {share !== undefined && (
+          <div
+            style={{
+              display: "flex",
+              height: ampComponents.ranking.shareBarHeight,
+              borderRadius: ampComponents.ranking.shareBarHeight / 2,
+              backgroundColor: colors.heatmap.empty,
+            }}
+          >
+            <div
+              style={{
+                width: `${Math.min(100, Math.max(0, share))}%`,
+                height: "100%",
+                borderRadius: ampComponents.ranking.shareBarHeight / 2,
+                backgroundColor: rank === 1 ? colors.accent.primary : colors.heatmap.level4,
+              }}
+            />
+          </div>
+        )}
+      </div>
     </div>
   );
 }
 
-function StatsGrid({ stats }: { stats: AmpCodeStats }) {
+function StatsGrid({ stats, colors }: { stats: AmpCodeStats; colors: AmpColors }) {
   const hasCredits = stats.hasCredits;
 
   return (
@@ -526,28 +834,28 @@ function StatsGrid({ stats }: { stats: AmpCodeStats }) {
       {hasCredits ? (
         <div style={{ display: "flex", flexDirection: "column", gap: ampSpacing[5] }}>
           <div style={{ display: "flex", gap: ampSpacing[5] }}>
-            <StatBox label="Threads" value={formatNumberFull(stats.totalSessions)} />
-            <StatBox label="Messages" value={formatNumberFull(stats.totalMessages)} />
-            <StatBox label="Total Tokens" value={formatNumberFull(stats.totalTokens)} />
+            <StatBox label="Threads" value={formatNumberFull(stats.totalSessions)} colors={colors} />
+            <StatBox label="Messages" value={formatNumberFull(stats.totalMessages)} colors={colors} />
+            <StatBox label="Total Tokens" value={formatNumberFull(stats.totalTokens)} colors={colors} />
           </div>
 
           <div style={{ display: "flex", gap: ampSpacing[5] }}>
-            <StatBox label="Projects" value={formatNumberFull(stats.totalProjects)} />
-            <StatBox label="Streak" value={`${stats.maxStreak}d`} />
-            <StatBox label="Credits" value={stats.totalCredits.toFixed(1)} />
+            <StatBox label="Projects" value={formatNumberFull(stats.totalProjects)} colors={colors} />
+            <StatBox label="Streak" value={`${stats.maxStreak}d`} colors={colors} />
+            <StatBox label="Credits" value={stats.totalCredits.toFixed(1)} colors={colors} />
           </div>
         </div>
       ) : (
         <div style={{ display: "flex", flexDirection: "column", gap: ampSpacing[5] }}>
           <div style={{ display: "flex", gap: ampSpacing[5] }}>
-            <StatBox label="Threads" value={formatNumberFull(stats.totalSessions)} />
-            <StatBox label="Messages" value={formatNumberFull(stats.totalMessages)} />
-            <StatBox label="Tokens" value={formatNumberFull(stats.totalTokens)} />
+            <StatBox label="Threads" value={formatNumberFull(stats.totalSessions)} colors={colors} />
+            <StatBox label="Messages" value={formatNumberFull(stats.totalMessages)} colors={colors} />
+            <StatBox label="Tokens" value={formatNumberFull(stats.totalTokens)} colors={colors} />
           </div>
 
           <div style={{ display: "flex", gap: ampSpacing[5] }}>
-            <StatBox label="Projects" value={formatNumberFull(stats.totalProjects)} />
-            <StatBox label="Streak" value={`${stats.maxStreak}d`} />
+            <StatBox label="Projects" value={formatNumberFull(stats.totalProjects)} colors={colors} />
+            <StatBox label="Streak" value={`${stats.maxStreak}d`} colors={colors} />
           </div>
         </div>
       )}
@@ -558,15 +866,16 @@ function StatsGrid({ stats }: { stats: AmpCodeStats }) {
 interface StatBoxProps {
   label: string;
   value: string;
+  colors: AmpColors;
 }
 
-function StatBox({ label, value }: StatBoxProps) {
+function StatBox({ label, value, colors }: StatBoxProps) {
   return (
     <div
       style={{
         display: "flex",
         flexDirection: "column",
-        backgroundColor: ampComponents.statBox.background,
+        backgroundColor: colors.surface,
         paddingTop: ampComponents.statBox.padding.y,
         paddingBottom: ampComponents.statBox.padding.y,
         paddingLeft: ampComponents.statBox.padding.x,
@@ -576,14 +885,14 @@ function StatBox({ label, value }: StatBoxProps) {
         alignItems: "center",
         justifyContent: "center",
         borderRadius: ampComponents.statBox.borderRadius,
-        border: `1px solid ${ampColors.surfaceBorder}`,
+        border: `1px solid ${colors.surfaceBorder}`,
       }}
     >
       <span
         style={{
           fontSize: ampTypography.size.lg,
           fontWeight: ampTypography.weight.medium,
-          color: ampColors.text.tertiary,
+          color: colors.text.tertiary,
           textTransform: "uppercase",
           letterSpacing: ampTypography.letterSpacing.wide,
         }}
@@ -595,7 +904,7 @@ function StatBox({ label, value }: StatBoxProps) {
         style={{
           fontSize: ampTypography.size["2xl"],
           fontWeight: ampTypography.weight.bold,
-          color: ampColors.text.primary,
+          color: colors.text.primary,
           lineHeight: ampTypography.lineHeight.none,
         }}
       >
@@ -605,7 +914,7 @@ function StatBox({ label, value }: StatBoxProps) {
   );
 }
 
-function Footer() {
+export function Footer({ colors }: { colors: AmpColors }) {
   return (
     <div
       style={{
@@ -620,7 +929,7 @@ function Footer() {
         style={{
           fontSize: ampTypography.size.lg,
           fontWeight: ampTypography.weight.medium,
-          color: ampColors.text.muted,
+          color: colors.text.muted,
           letterSpacing: ampTypography.letterSpacing.normal,
         }}
       >
@@ -1,3 +1,19 @@
+// Model registry - model and provider names from models.dev, with a bundled offline snapshot
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import modelsSnapshot from "../assets/models.json";
+import alibabaLogo from "../assets/images/providers/alibaba.svg" with { type: "text" };
+import anthropicLogo from "../assets/images/providers/anthropic.svg" with { type: "text" };
+import deepseekLogo from "../assets/images/providers/deepseek.svg" with { type: "text" };
+import googleLogo from "../assets/images/providers/google.svg" with { type: "text" };
+import mistralLogo from "../assets/images/providers/mistral.svg" with { type: "text" };
+import moonshotaiLogo from "../assets/images/providers/moonshotai.svg" with { type: "text" };
+import openaiLogo from "../assets/images/providers/openai.svg" with { type: "text" };
+import xaiLogo from "../assets/images/providers/xai.svg" with { type: "text" };
+import zaiLogo from "../assets/images/providers/zai.svg" with { type: "text" };
+import { getCacheDir } from "./cache";
+
 interface ModelInfo {
   id: string;
   name: string;
@@ -14,72 +30,197 @@ interface ModelsDevData {
   providers: Record<string, ProviderInfo>;
 }
 
-// Cache for the fetched data
+/**
+ * - family: dated snapshots of a model (claude-sonnet-4-5-20250929,
+ *   gpt-4o-2024-08-06) count as that model
+ * - exact: every model ID counts separately
+ */
+export type ModelGrouping = "family" | "exact";
+
+export interface ModelRules {
+  grouping: ModelGrouping;
+  /**
+   * Model ID or glob -> the model ID it counts as. A `*` in the target is
+   * replaced by what the `*` in the pattern matched, so `"proxy/*": "*"`
+   * strips a prefix.
+   */
+  aliases: Record<string, string>;
+  /** Model ID, after aliasing and grouping -> name shown on the card */
+  displayNames: Record<string, string>;
+  /** Model ID or glob, after aliasing and grouping -> provider ID */
+  providers: Record<string, string>;
+}
+
+export interface ResolvedModel {
+  id: string;
+  name: string;
+  providerId: string;
+}
+
+export type ModelResolver = (modelId: string) => ResolvedModel;
+
+export const MODEL_GROUPINGS: ModelGrouping[] = ["family", "exact"];
+
+export const MODELS_DEV_URL = "https://models.dev/api.json";
+
+// Several providers serve the same model IDs (e.g. cloud resellers); the
+// model's own vendor wins over whichever provider happens to be listed first
+const PRIMARY_PROVIDERS = ["anthropic", "openai", "google", "xai", "deepseek", "mistral", "moonshotai", "zai", "alibaba"];
+
+// Logos are bundled rather than fetched so the card renders offline
+const PROVIDER_LOGOS: Record<string, string> = {
+  alibaba: alibabaLogo,
+  anthropic: anthropicLogo,
+  deepseek: deepseekLogo,
+  google: googleLogo,
+  mistral: mistralLogo,
+  moonshotai: moonshotaiLogo,
+  openai: openaiLogo,
+  xai: xaiLogo,
+  zai: zaiLogo,
+};
+
+// Cache for the loaded data
 let cachedData: ModelsDevData | null = null;
 
-export async function fetchModelsData(): Promise<ModelsDevData> {
+/**
+ * The refreshed copy of models.dev lives next to the stats cache. Without
+ * one, the snapshot bundled at build time is used.
+ */
+export function getModelsDataPath(): string {
+  return join(getCacheDir(), "models.json");
+}
+
+/**
+ * Load model and provider names from the local copy, falling back to the
+ * bundled snapshot. Never touches the network; see refreshModelsData.
+ */
+export async function loadModelsData(): Promise<ModelsDevData> {
   if (cachedData) {
     return cachedData;
   }
 
   try {
-    const response = await fetch("https://models.dev/api.json", {
-      signal: AbortSignal.timeout(5000),
+    const local = parseModelsDevData(JSON.parse(await readFile(getModelsDataPath(), "utf8")));
+    if (Object.keys(local.models).length > 0) {
+      cachedData = local;
+      return cachedData;
+    }
+  } catch {
+    // No local copy yet, or it is corrupt
+  }
+
+  cachedData = parseModelsDevData(modelsSnapshot);
+  return cachedData;
+}
+
+/**
+ * Replace the local copy with models.dev data from a URL or a file path
+ * (default: the models.dev API). The data is validated before it is saved,
+ * so a bad download never replaces a working copy. Throws on failure.
+ */
+export async function refreshModelsData(
+  source: string = MODELS_DEV_URL
+): Promise<{ path: string; modelCount: number; providerCount: number }> {
+  let raw: string;
+
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source, {
+      signal: AbortSignal.timeout(15000),
     });
 
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}`);
     }
 
-    const data = await response.json();
-
-    const models: Record<string, ModelInfo> = {};
-    const providers: Record<string, ProviderInfo> = {};
-
-    if (data && typeof data === "object") {
-      for (const [providerId, providerData] of Object.entries(data)) {
-        if (!providerData || typeof providerData !== "object") continue;
-
-        const pd = providerData as { name?: string; models?: Record<string, { name?: string }> };
-
-        if (pd.name) {
-          providers[providerId] = {
-            id: providerId,
-            name: pd.name,
-          };
-        }
-
-        if (pd.models && typeof pd.models === "object") {
-          for (const [modelId, modelData] of Object.entries(pd.models)) {
-            if (modelData && typeof modelData === "object" && modelData.name) {
-              models[modelId] = {
-                id: modelId,
-                name: modelData.name,
-                provider: providerId,
-              };
-            }
-          }
-        }
-      }
+    raw = await response.text();
+  } else {
+    raw = await readFile(source, "utf8");
+  }
+
+  const data = parseModelsDevData(JSON.parse(raw));
+  const modelCount = Object.keys(data.models).length;
+  if (modelCount === 0) {
+    throw new Error("No models found. Is this models.dev api.json data?");
+  }
+
+  const path = getModelsDataPath();
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(tempPath, raw);
+  await rename(tempPath, path);
+
+  cachedData = data;
+  return { path, modelCount, providerCount: Object.keys(data.providers).length };
+}
+
+function parseModelsDevData(data: unknown): ModelsDevData {
+  const models: Record<string, ModelInfo> = {};
+  const providers: Record<string, ProviderInfo> = {};
+
+  if (!data || typeof data !== "object") {
+    return { models, providers };
+  }
+
+  for (const [providerId, providerData] of Object.entries(data)) {
+    if (!providerData || typeof providerData !== "object") continue;
+
+    const pd = providerData as { name?: string; models?: Record<string, { name?: string }> };
+
+    if (pd.name) {
+      providers[providerId] = {
+        id: providerId,
+        name: pd.name,
+      };
     }
 
-    cachedData = { models, providers };
-    return cachedData;
-  } catch (error) {
-    console.warn("Failed to fetch models.dev data, using fallbacks");
-    cachedData = { models: {}, providers: {} };
-    return cachedData;
+    if (pd.models && typeof pd.models === "object") {
+      for (const [modelId, modelData] of Object.entries(pd.models)) {
+        if (!modelData || typeof modelData !== "object" || !modelData.name) continue;
+
+        const existing = models[modelId];
+        if (existing && !isPreferredProvider(providerId, existing.provider)) continue;
+
+        models[modelId] = {
+          id: modelId,
+          name: modelData.name,
+          provider: providerId,
+        };
+      }
+    }
   }
+
+  return { models, providers };
+}
+
+function isPreferredProvider(candidate: string, current: string): boolean {
+  const rank = (providerId: string) => {
+    const index = PRIMARY_PROVIDERS.indexOf(providerId);
+    return index === -1 ? PRIMARY_PROVIDERS.length : index;
+  };
+  return rank(candidate) < rank(current);
+}
+
+/**
+ * Look a model up by its exact ID, then without a trailing date stamp
+ * (claude-sonnet-4-5-20250929 -> claude-sonnet-4-5) so new snapshots of
+ * known models still resolve.
+ */
+function findModel(modelId: string): ModelInfo | undefined {
+  if (!cachedData) return undefined;
+  return cachedData.models[modelId] ?? cachedData.models[modelId.replace(/[-@]\d{8}$/, "")];
 }
 
 export function getModelDisplayName(modelId: string): string {
   if (!cachedData) {
-    console.warn("Models data not prefetched, using fallback formatting");
+    console.warn("Models data not loaded, using fallback formatting");
     return formatModelIdAsName(modelId);
   }
 
-  if (cachedData.models[modelId]?.name) {
-    return cachedData.models[modelId].name;
+  const model = findModel(modelId);
+  if (model) {
+    // Alias IDs are named after the snapshot they point to
+    return model.name.replace(/ \(latest\)$/, "");
   }
 
   return formatModelIdAsName(modelId);
@@ -87,18 +228,31 @@ export function getModelDisplayName(modelId: string): string {
 
 export function getModelProvider(modelId: string): string {
   if (!cachedData) {
-    console.warn("Models data not prefetched");
-    return "unknown";
+    console.warn("Models data not loaded");
+    return guessProviderFromModelId(modelId);
   }
 
-  if (cachedData.models[modelId]?.provider) {
-    return cachedData.models[modelId].provider;
-  }
+  return findModel(modelId)?.provider ?? guessProviderFromModelId(modelId);
+}
 
+/**
+ * Vendor naming conventions, for models newer than the registry data
+ */
+function guessProviderFromModelId(modelId: string): string {
+  if (modelId.startsWith("claude")) return "anthropic";
+  if (modelId.startsWith("gpt") || modelId.startsWith("o1") || modelId.startsWith("o3")) return "openai";
+  if (modelId.startsWith("gemini")) return "google";
+  if (modelId.includes("mistral") || modelId.includes("mixtral")) return "mistral";
+  if (modelId.includes("llama")) return "meta";
+  if (modelId.includes("deepseek")) return "deepseek";
   return "unknown";
 }
 
 export function getProviderDisplayName(providerId: string): string {
+  if (providerId === "unknown") {
+    return "Other";
+  }
+
   if (cachedData?.providers[providerId]?.name) {
     return cachedData.providers[providerId].name;
   }
@@ -106,8 +260,76 @@ export function getProviderDisplayName(providerId: string): string {
   return providerId.charAt(0).toUpperCase() + providerId.slice(1);
 }
 
-export function getProviderLogoUrl(providerId: string): string {
-  return `https://models.dev/logos/${providerId}.svg`;
+/**
+ * The provider's logo as an SVG data URL, or undefined for providers without
+ * a bundled logo (including "unknown")
+ */
+export function getProviderLogoUrl(providerId: string): string | undefined {
+  const logo = PROVIDER_LOGOS[providerId];
+  return logo ? `data:image/svg+xml;base64,${Buffer.from(logo).toString("base64")}` : undefined;
+}
+
+/**
+ * Create a resolver that applies the user's model rules: aliases first, then
+ * grouping, then display name and provider overrides. Whatever isn't
+ * overridden comes from the registry, so loadModelsData must have run. The
+ * registry is searched by the aliased ID before grouping, since it mostly
+ * lists dated snapshots rather than the families they group into; the
+ * family ID is only tried when the aliased one isn't listed.
+ */
+export function createModelResolver(rules: Partial<ModelRules> = {}): ModelResolver {
+  const { grouping = "family", aliases = {}, displayNames = {}, providers = {} } = rules;
+  const aliasMatchers = Object.entries(aliases).map(([match, target]) => ({ pattern: compileModelPattern(match), target }));
+  const providerMatchers = Object.entries(providers).map(([match, providerId]) => ({
+    pattern: compileModelPattern(match),
+    providerId,
+  }));
+  const resolved = new Map<string, ResolvedModel>();
+
+  return (modelId) => {
+    const cached = resolved.get(modelId);
+    if (cached) return cached;
+
+    let id = modelId;
+    for (const { pattern, target } of aliasMatchers) {
+      const match = pattern.exec(modelId);
+      if (match) {
+        id = target.replace("*", match[1] ?? "");
+        break;
+      }
+    }
+
+    let lookupId = id;
+    if (grouping === "family") {
+      id = getModelFamily(id);
+      if (!findModel(lookupId)) lookupId = id;
+    }
+
+    const model: ResolvedModel = {
+      id,
+      name: displayNames[id] ?? getModelDisplayName(lookupId),
+      providerId: providerMatchers.find(({ pattern }) => pattern.test(id))?.providerId ?? getModelProvider(lookupId),
+    };
+    resolved.set(modelId, model);
+    return model;
+  };
+}
+
+/**
+ * Strip date stamps and `-latest` so every snapshot of a model shares one ID
+ */
+function getModelFamily(modelId: string): string {
+  return modelId.replace(/(?:[-@]\d{8}|-\d{4}-\d{2}-\d{2}|-latest)$/, "");
+}
+
+/**
+ * Model IDs contain slashes, dots and colons, so only `*` is special; it
+ * matches anything, including nothing.
+ */
+function compileModelPattern(pattern: string): RegExp {
+  const [first, ...rest] = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  const source = rest.length > 0 ? `${first}(.*)${rest.join(".*")}` : first;
+  return new RegExp(`^${source}$`);
 }
 
 function formatModelIdAsName(modelId: string): string {
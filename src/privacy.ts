@@ -0,0 +1,42 @@
+// Privacy - strips project names and credits from stats before they are shown or exported
+
+import type { AmpCodeStats } from "./types";
+import type { AmpWrappedPrivacy } from "./config";
+
+/**
+ * Apply the privacy settings to a copy of the stats. Everything downstream
+ * (card, summary, share text and JSON export) sees only the redacted copy.
+ */
+export function applyPrivacy(stats: AmpCodeStats, privacy: AmpWrappedPrivacy): AmpCodeStats {
+  let redacted = stats;
+
+  if (privacy.hideProjectNames) {
+    redacted = {
+      ...redacted,
+      topProjects: redacted.topProjects.map((project, i) => ({
+        ...project,
+        path: "",
+        name: `Project ${i + 1}`,
+      })),
+    };
+  }
+
+  if (privacy.hideCredits) {
+    redacted = {
+      ...redacted,
+      totalCredits: 0,
+      hasCredits: false,
+      models: redacted.models.map((model) => ({ ...model, credits: 0 })),
+      providers: redacted.providers.map((provider) => ({ ...provider, credits: 0 })),
+      topModels: redacted.topModels.map((model) => ({ ...model, credits: 0 })),
+      topProviders: redacted.topProviders.map((provider) => ({ ...provider, credits: 0 })),
+      topProjects: redacted.topProjects.map((project) => ({ ...project, credits: 0 })),
+      yearlyTotals: redacted.yearlyTotals.map((year) => ({ ...year, credits: 0 })),
+      dailyTotals: new Map(
+        Array.from(redacted.dailyTotals.entries(), ([dateKey, totals]) => [dateKey, { ...totals, credits: 0 }])
+      ),
+    };
+  }
+
+  return redacted;
+}
@@ -0,0 +1,218 @@
+// Project detection - maps files mentioned in threads to the project they belong to
+
+import { readdir, stat } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import os from "node:os";
+
+export interface ProjectAlias {
+  /** Path prefix or glob (`*` within a segment, `**` across segments), `~` allowed */
+  match: string;
+  /** Name every matching project is grouped under */
+  name: string;
+}
+
+export interface ResolvedProject {
+  /** Grouping key: the project root, or the alias pattern for aliased projects */
+  path: string;
+  name: string;
+}
+
+export type ProjectResolver = (uri: string) => Promise<ResolvedProject | null>;
+
+// A version control root always wins, so packages inside a monorepo count as one project
+const REPOSITORY_MARKERS = [".git", ".hg", ".svn", ".jj"];
+
+// Workspace roots group their packages when there is no repository root
+const WORKSPACE_MARKERS = ["pnpm-workspace.yaml", "lerna.json", "nx.json", "turbo.json", "rush.json", "go.work"];
+
+// The nearest of these marks a standalone project
+const PACKAGE_MARKERS = [
+  "package.json",
+  "deno.json",
+  "Cargo.toml",
+  "go.mod",
+  "pyproject.toml",
+  "setup.py",
+  "Gemfile",
+  "composer.json",
+  "pom.xml",
+  "build.gradle",
+  "build.gradle.kts",
+  "mix.exs",
+  "Package.swift",
+];
+
+const HEURISTIC_INDICATORS = ["/src/", "/lib/", "/app/", "/components/", "/pages/"];
+
+/**
+ * Create a resolver that finds the project root for a file:// URI by walking
+ * up to the nearest repository, workspace or package marker. Lookups are
+ * cached per directory, so each directory is read at most once per run, and
+ * the directories above a repository are only walked once. Files that no
+ * longer exist on disk fall back to path heuristics.
+ */
+export function createProjectResolver(aliases: ProjectAlias[] = []): ProjectResolver {
+  // Directory of a mentioned file -> its project root, or null when the directory is gone or has no markers.
+  // Promises are cached so concurrent lookups in one directory share a single walk
+  const rootCache = new Map<string, Promise<string | null>>();
+  const repositoryCache = new Map<string, string>(); // Directory -> enclosing repository root
+  const aliasMatchers = aliases.map((alias) => ({ alias, pattern: compilePathPattern(alias.match) }));
+
+  async function findRoot(startDir: string): Promise<string | null> {
+    if (!(await isDirectory(startDir))) return null;
+
+    const visited: string[] = [];
+    const homeDir = os.homedir();
+    let repositoryRoot: string | null = null;
+    let workspaceRoot: string | null = null;
+    let packageRoot: string | null = null;
+    let dir = startDir;
+
+    while (true) {
+      const knownRepository = repositoryCache.get(dir);
+      if (knownRepository) {
+        repositoryRoot = knownRepository;
+        break;
+      }
+
+      // Stop at the home directory so a dotfiles repository doesn't swallow every project
+      if (dir === homeDir) break;
+
+      visited.push(dir);
+
+      const entries = await listEntries(dir);
+      if (REPOSITORY_MARKERS.some((marker) => entries.has(marker))) {
+        repositoryRoot = dir;
+        break;
+      }
+      if (WORKSPACE_MARKERS.some((marker) => entries.has(marker))) {
+        workspaceRoot = dir;
+      }
+      if (!packageRoot && PACKAGE_MARKERS.some((marker) => entries.has(marker))) {
+        packageRoot = dir;
+      }
+
+      const parent = dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+
+    if (repositoryRoot) {
+      for (const visitedDir of visited) {
+        repositoryCache.set(visitedDir, repositoryRoot);
+      }
+    }
+
+    return repositoryRoot ?? workspaceRoot ?? packageRoot;
+  }
+
+  return async (uri) => {
+    const filePath = fileUriToPath(uri);
+    if (!filePath) return null;
+
+    const dir = dirname(filePath);
+    let lookup = rootCache.get(dir);
+    if (!lookup) {
+      lookup = findRoot(dir);
+      rootCache.set(dir, lookup);
+    }
+
+    const root = (await lookup) ?? guessProjectPath(filePath);
+    if (!root) return null;
+
+    for (const { alias, pattern } of aliasMatchers) {
+      if (pattern.test(root)) {
+        return { path: alias.match, name: alias.name };
+      }
+    }
+
+    return { path: root, name: basename(root) || root };
+  };
+}
+
+/**
+ * Parse `--project-alias` values of the form `<path or glob>=<name>`.
+ * Throws with a user-facing message on malformed input.
+ */
+export function parseProjectAliases(values: string[] = []): ProjectAlias[] {
+  return values.map((value) => {
+    const separator = value.lastIndexOf("=");
+    const match = value.slice(0, separator).trim();
+    const name = value.slice(separator + 1).trim();
+
+    if (separator === -1 || !match || !name) {
+      throw new Error(`Invalid --project-alias "${value}". Expected <path or glob>=<name>.`);
+    }
+
+    return { match, name };
+  });
+}
+
+function fileUriToPath(uri: string): string | null {
+  if (!uri.startsWith("file://")) return null;
+
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return uri.replace("file://", "");
+  }
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// One read per directory instead of a check per marker; unreadable directories have no markers
+async function listEntries(dir: string): Promise<Set<string>> {
+  try {
+    return new Set(await readdir(dir));
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Fallback for files that are gone: guess the project root from common
+ * source directory names in the path
+ */
+function guessProjectPath(path: string): string | null {
+  for (const indicator of HEURISTIC_INDICATORS) {
+    const idx = path.indexOf(indicator);
+    if (idx !== -1) {
+      return path.substring(0, idx);
+    }
+  }
+
+  // Fall back to parent directory
+  const parts = path.split("/");
+  if (parts.length >= 4) {
+    return parts.slice(0, -1).join("/");
+  }
+
+  return null;
+}
+
+/**
+ * Compile a path prefix or glob into a RegExp. A pattern matches the path
+ * itself and anything below it.
+ */
+function compilePathPattern(pattern: string): RegExp {
+  const expanded = pattern.startsWith("~/") ? join(os.homedir(), pattern.slice(2)) : pattern;
+  const trimmed = expanded.length > 1 ? expanded.replace(/\/+$/, "") : expanded;
+
+  const source = trimmed
+    .split(/(\*\*|\*)/)
+    .map((part) => {
+      if (part === "**") return ".*";
+      if (part === "*") return "[^/]*";
+      return part.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
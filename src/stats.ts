@@ -1,66 +1,129 @@
-import type { AmpCodeStats, AmpModelStats, AmpProviderStats, AmpWeekdayActivity } from "./types";
-import { collectAmpUsageSummary } from "./collector";
+import type {
+  AmpChronotype,
+  AmpCodeStats,
+  AmpDailyActivity,
+  AmpDateRange,
+  AmpHeatmapMetric,
+  AmpHourlyActivity,
+  AmpModelStats,
+  AmpProjectStats,
+  AmpProviderStats,
+  AmpToolCategory,
+  AmpToolUsage,
+  AmpWeekdayActivity,
+  AmpYearlyTotals,
+} from "./types";
+import {
+  collectAmpUsageSummary,
+  type AmpCollectOptions,
+  type AmpModelTotals,
+  type AmpProjectTotals,
+} from "./collector";
+import {
+  createModelResolver,
+  getProviderDisplayName,
+  loadModelsData,
+  type ModelResolver,
+  type ModelRules,
+} from "./models";
+import { getToolCategory, getToolDisplayName } from "./tools";
+import { addDays, daysBetween, formatDateKey, yearRange } from "./utils/dates";
+import { formatHour } from "./utils/format";
+
+export interface AmpStatsOptions extends AmpCollectOptions {
+  /** What the heatmap, streaks and most active day count (default: messages) */
+  heatmapMetric?: AmpHeatmapMetric;
+  /** Aliases, grouping and overrides applied to model IDs before they are ranked */
+  modelRules?: Partial<ModelRules>;
+  /** How many models and providers topModels and topProviders keep (default: 3) */
+  top?: number;
+}
+
+export const DEFAULT_TOP = 3;
 
-export async function calculateAmpStats(year: number): Promise<AmpCodeStats> {
-  const usageSummary = await collectAmpUsageSummary(year);
+export const HEATMAP_METRICS: AmpHeatmapMetric[] = ["threads", "messages", "tokens", "credits"];
 
-  const dailyActivity = usageSummary.dailyActivity;
-  const weekdayCounts: [number, number, number, number, number, number, number] = [0, 0, 0, 0, 0, 0, 0];
+/**
+ * Parse a `--heatmap-metric` value. Throws with a user-facing message on
+ * unknown metrics.
+ */
+export function parseHeatmapMetric(value: string | undefined): AmpHeatmapMetric {
+  if (value === undefined) return "messages";
 
-  // Build weekday counts from daily activity
-  for (const [entryDate, messageCount] of dailyActivity.entries()) {
-    const weekday = new Date(entryDate).getDay();
-    weekdayCounts[weekday] += messageCount;
+  const metric = HEATMAP_METRICS.find((m) => m === value.trim().toLowerCase());
+  if (!metric) {
+    throw new Error(`Invalid --heatmap-metric "${value}". Expected one of: ${HEATMAP_METRICS.join(", ")}.`);
   }
+  return metric;
+}
 
-  // Build model stats
-  const modelStats: AmpModelStats[] = [];
-  const providerCounts = new Map<string, number>();
-  const totalTokens = usageSummary.totalTokens;
+/**
+ * Parse a `--top` value. Throws with a user-facing message unless it is a
+ * positive whole number.
+ */
+export function parseTop(value: string | undefined): number {
+  if (value === undefined) return DEFAULT_TOP;
 
-  for (const [modelId, tokens] of usageSummary.modelTokenTotals.entries()) {
-    if (tokens <= 0) continue;
+  const top = Number(value.trim());
+  if (!Number.isInteger(top) || top < 1) {
+    throw new Error(`Invalid --top "${value}". Expected a positive whole number.`);
+  }
+  return top;
+}
 
-    const providerId = resolveProviderId(modelId);
-    const credits = usageSummary.modelCreditTotals.get(modelId) || 0;
+export async function calculateAmpStats(options: AmpStatsOptions): Promise<AmpCodeStats> {
+  const { timeZone, heatmapMetric = "messages", top = DEFAULT_TOP } = options;
+  const [usageSummary] = await Promise.all([collectAmpUsageSummary(options), loadModelsData()]);
 
-    providerCounts.set(providerId, (providerCounts.get(providerId) || 0) + tokens);
+  // All time starts on the first day with a thread, so the heatmap and years don't reach back further
+  let range = options.range;
+  if (range.kind === "all") {
+    const firstDay = usageSummary.firstTimestamp ? formatDateKey(usageSummary.firstTimestamp, timeZone) : range.end;
+    range = { ...range, start: firstDay };
+  }
 
-    modelStats.push({
-      id: modelId,
-      name: getModelDisplayName(modelId),
-      providerId,
-      count: tokens,
-      percentage: totalTokens > 0 ? (tokens / totalTokens) * 100 : 0,
-      credits,
-    });
+  // Only days where the chosen metric is non-zero count as active
+  const dailyTotals = usageSummary.dailyActivity;
+  const dailyActivity = new Map<string, number>();
+  for (const [dateKey, totals] of dailyTotals.entries()) {
+    if (totals[heatmapMetric] > 0) {
+      dailyActivity.set(dateKey, totals[heatmapMetric]);
+    }
   }
 
-  const topModels = modelStats.sort((a, b) => b.count - a.count).slice(0, 3);
+  // Messages per weekday, from the local time each message was sent
+  const weekdayCounts = usageSummary.weekdayHourCounts.map((hours) =>
+    hours.reduce((sum, count) => sum + count, 0)
+  ) as [number, number, number, number, number, number, number];
 
-  const topProviders: AmpProviderStats[] = Array.from(providerCounts.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 3)
-    .map(([id, count]) => ({
-      id,
-      name: getProviderDisplayName(id),
-      count,
-      percentage: totalTokens > 0 ? (count / totalTokens) * 100 : 0,
-    }));
+  const { models, providers } = buildModelStats(
+    usageSummary.modelTotals,
+    createModelResolver(options.modelRules),
+    usageSummary.totalTokens
+  );
+  const topModels = models.slice(0, top);
+  const topProviders = providers.slice(0, top);
+
+  const topProjects = buildProjectStats(usageSummary.projectTotals).slice(0, 3);
+  const toolUsage = buildToolUsage(usageSummary.toolCallCounts, usageSummary.commandCounts);
 
-  const { maxStreak, currentStreak, maxStreakDays } = calculateStreaks(dailyActivity, year);
+  const { maxStreak, currentStreak, maxStreakDays } = calculateStreaks(dailyActivity, range, timeZone);
   const mostActiveDay = findMostActiveDay(dailyActivity);
   const weekdayActivity = buildWeekdayActivity(weekdayCounts);
+  const hourlyActivity = buildHourlyActivity(usageSummary.hourlyCounts, usageSummary.weekdayHourCounts);
+  const yearlyTotals = buildYearlyTotals(dailyTotals, dailyActivity, usageSummary.yearlyThreads, range, timeZone);
 
   const cacheHitRate = usageSummary.totalCacheReadTokens > 0
     ? (usageSummary.totalCacheReadTokens / (usageSummary.totalCacheReadTokens + usageSummary.totalInputTokens)) * 100
     : 0;
 
   const firstSessionDate = usageSummary.firstTimestamp || new Date();
-  const daysSinceFirstSession = Math.floor((Date.now() - firstSessionDate.getTime()) / (1000 * 60 * 60 * 24));
+  const daysSinceFirstSession = daysBetween(formatDateKey(firstSessionDate, timeZone), formatDateKey(new Date(), timeZone));
 
   return {
-    year,
+    year: parseInt(range.end.slice(0, 4), 10),
+    range,
+    timeZone,
     firstSessionDate,
     daysSinceFirstSession,
     totalSessions: usageSummary.totalSessions,
@@ -73,96 +136,188 @@ export async function calculateAmpStats(year: number): Promise<AmpCodeStats> {
     cacheHitRate,
     totalCredits: usageSummary.totalCredits,
     hasCredits: usageSummary.totalCredits > 0,
+    models,
+    providers,
     topModels,
     topProviders,
+    topProjects,
+    toolUsage,
     maxStreak,
     currentStreak,
     maxStreakDays,
+    heatmapMetric,
     dailyActivity,
+    dailyTotals,
     mostActiveDay,
     weekdayActivity,
+    hourlyActivity,
+    yearlyTotals,
+    diagnostics: usageSummary.diagnostics,
   };
 }
 
-function resolveProviderId(modelId: string): string {
-  if (modelId.startsWith("claude")) return "anthropic";
-  if (modelId.startsWith("gpt") || modelId.startsWith("o1") || modelId.startsWith("o3")) return "openai";
-  if (modelId.startsWith("gemini")) return "google";
-  if (modelId.includes("mistral") || modelId.includes("mixtral")) return "mistral";
-  if (modelId.includes("llama")) return "meta";
-  if (modelId.includes("deepseek")) return "deepseek";
-  return "unknown";
-}
-
-function getModelDisplayName(modelId: string): string {
-  // Common model name mappings
-  const modelNames: Record<string, string> = {
-    "claude-opus-4-5-20251101": "Opus 4.5",
-    "claude-sonnet-4-5-20250929": "Sonnet 4.5",
-    "claude-sonnet-4-20250514": "Sonnet 4",
-    "claude-haiku-4-5-20251001": "Haiku 4.5",
-    "claude-3-5-sonnet-20241022": "Sonnet 3.5",
-    "claude-3-5-haiku-20241022": "Haiku 3.5",
-    "claude-3-opus-20240229": "Opus 3",
-    "claude-3-sonnet-20240229": "Sonnet 3",
-    "claude-3-haiku-20240307": "Haiku 3",
-    "gpt-4o": "GPT-4o",
-    "gpt-4o-mini": "GPT-4o Mini",
-    "gpt-4-turbo": "GPT-4 Turbo",
-    "gpt-5": "GPT-5",
-    "gpt-5.1": "GPT-5.1",
-    "o1-preview": "o1 Preview",
-    "o1-mini": "o1 Mini",
-    "o3-mini": "o3 Mini",
-    "gemini-2.0-flash": "Gemini 2.0 Flash",
-    "gemini-3-flash-preview": "Gemini 3 Flash",
-    "gemini-1.5-pro": "Gemini 1.5 Pro",
-    "deepseek-chat": "DeepSeek Chat",
-    "deepseek-coder": "DeepSeek Coder",
-  };
-
-  if (modelNames[modelId]) return modelNames[modelId];
+/**
+ * Totals for each calendar year the range touches, including years without
+ * activity so gaps show up in the per-year chart
+ */
+function buildYearlyTotals(
+  dailyTotals: Map<string, AmpDailyActivity>,
+  dailyActivity: Map<string, number>,
+  yearlyThreads: Map<number, number>,
+  range: AmpDateRange,
+  timeZone: string
+): AmpYearlyTotals[] {
+  const firstYear = parseInt(range.start.slice(0, 4), 10);
+  const lastYear = parseInt(range.end.slice(0, 4), 10);
+  const years: AmpYearlyTotals[] = [];
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    years.push({
+      year,
+      threads: yearlyThreads.get(year) ?? 0,
+      messages: 0,
+      tokens: 0,
+      credits: 0,
+      activeDays: 0,
+      count: 0,
+      maxStreak: calculateStreaks(dailyActivity, yearRange(year), timeZone).maxStreak,
+    });
+  }
 
-  // Try to extract a clean name from the model ID
-  if (modelId.startsWith("claude-")) {
-    const parts = modelId.replace("claude-", "").split("-");
-    if (parts.length >= 2) {
-      const variant = parts[0].charAt(0).toUpperCase() + parts[0].slice(1);
-      const version = parts[1];
-      return `${variant} ${version}`;
+  for (const [dateKey, totals] of dailyTotals.entries()) {
+    const totalsForYear = years[parseInt(dateKey.slice(0, 4), 10) - firstYear];
+    if (!totalsForYear) continue;
+
+    totalsForYear.messages += totals.messages;
+    totalsForYear.tokens += totals.tokens;
+    totalsForYear.credits += totals.credits;
+    const count = dailyActivity.get(dateKey);
+    if (count !== undefined) {
+      totalsForYear.activeDays++;
+      totalsForYear.count += count;
     }
   }
 
-  // Fallback: just capitalize first letter
-  return modelId.charAt(0).toUpperCase() + modelId.slice(1);
+  return years;
 }
 
-function getProviderDisplayName(providerId: string): string {
-  const providerNames: Record<string, string> = {
-    anthropic: "Anthropic",
-    openai: "OpenAI",
-    google: "Google",
-    mistral: "Mistral",
-    meta: "Meta",
-    deepseek: "DeepSeek",
-    unknown: "Other",
+/**
+ * Sum usage per model after aliasing and grouping, since several model IDs can
+ * resolve to one model, and per provider. Both lists are sorted by tokens.
+ */
+function buildModelStats(
+  modelTotals: Map<string, AmpModelTotals>,
+  resolveModel: ModelResolver,
+  totalTokens: number
+): { models: AmpModelStats[]; providers: AmpProviderStats[] } {
+  const models = new Map<string, AmpModelStats>();
+  const providers = new Map<string, AmpProviderStats>();
+  const share = (tokens: number) => (totalTokens > 0 ? (tokens / totalTokens) * 100 : 0);
+
+  // Snapshots grouped into one model can be named differently (Claude Sonnet 3.5
+  // and 3.5 v2); in ID order the earliest names it, whatever order threads were read in
+  const sortedTotals = Array.from(modelTotals.entries()).sort(([a], [b]) => a.localeCompare(b));
+  for (const [modelId, totals] of sortedTotals) {
+    if (totals.tokens <= 0) continue;
+
+    const model = resolveModel(modelId);
+
+    const modelStats = models.get(model.id) ?? {
+      id: model.id,
+      name: model.name,
+      providerId: model.providerId,
+      count: 0,
+      percentage: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      credits: 0,
+    };
+    modelStats.count += totals.tokens;
+    modelStats.percentage = share(modelStats.count);
+    modelStats.inputTokens += totals.inputTokens;
+    modelStats.outputTokens += totals.outputTokens;
+    modelStats.cacheReadTokens += totals.cacheReadTokens;
+    modelStats.credits += totals.credits;
+    models.set(model.id, modelStats);
+
+    const providerStats = providers.get(model.providerId) ?? {
+      id: model.providerId,
+      name: getProviderDisplayName(model.providerId),
+      count: 0,
+      percentage: 0,
+      credits: 0,
+    };
+    providerStats.count += totals.tokens;
+    providerStats.percentage = share(providerStats.count);
+    providerStats.credits += totals.credits;
+    providers.set(model.providerId, providerStats);
+  }
+
+  return {
+    models: Array.from(models.values()).sort((a, b) => b.count - a.count || a.id.localeCompare(b.id)),
+    providers: Array.from(providers.values()).sort((a, b) => b.count - a.count || a.id.localeCompare(b.id)),
   };
-  return providerNames[providerId] || providerId;
 }
 
-function formatDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+function buildProjectStats(projectTotals: Map<string, AmpProjectTotals>): AmpProjectStats[] {
+  return Array.from(projectTotals.entries())
+    .map(([path, totals]) => ({
+      path,
+      name: totals.name,
+      threads: totals.threads,
+      messages: totals.messages,
+      tokens: totals.tokens,
+      credits: totals.credits,
+      activeDays: totals.activeDays.size,
+    }))
+    .sort((a, b) => b.messages - a.messages || b.tokens - a.tokens || a.path.localeCompare(b.path));
+}
+
+function buildToolUsage(toolCallCounts: Map<string, number>, commandCounts: Map<string, number>): AmpToolUsage {
+  const categoryCounts: Record<AmpToolCategory, number> = { edit: 0, read: 0, search: 0, command: 0, other: 0 };
+  let totalCalls = 0;
+
+  for (const [toolName, count] of toolCallCounts.entries()) {
+    categoryCounts[getToolCategory(toolName)] += count;
+    totalCalls += count;
+  }
+
+  const topTools = Array.from(toolCallCounts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 3)
+    .map(([id, count]) => ({
+      id,
+      name: getToolDisplayName(id),
+      category: getToolCategory(id),
+      count,
+      percentage: totalCalls > 0 ? (count / totalCalls) * 100 : 0,
+    }));
+
+  const topCommands = Array.from(commandCounts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 3)
+    .map(([command, count]) => ({ command, count }));
+
+  const readCount = categoryCounts.read + categoryCounts.search;
+
+  return {
+    totalCalls,
+    topTools,
+    categoryCounts,
+    editReadRatio: readCount > 0 ? categoryCounts.edit / readCount : null,
+    commandsRun: categoryCounts.command,
+    topCommands,
+  };
 }
 
 function calculateStreaks(
   dailyActivity: Map<string, number>,
-  year: number
+  range: AmpDateRange,
+  timeZone: string
 ): { maxStreak: number; currentStreak: number; maxStreakDays: Set<string> } {
   const activeDates = Array.from(dailyActivity.keys())
-    .filter((date) => date.startsWith(String(year)))
+    .filter((date) => date >= range.start && date <= range.end)
     .sort();
 
   if (activeDates.length === 0) {
@@ -176,12 +331,7 @@ function calculateStreaks(
   let maxStreakEnd = 0;
 
   for (let i = 1; i < activeDates.length; i++) {
-    const prevDate = new Date(activeDates[i - 1]);
-    const currDate = new Date(activeDates[i]);
-    const diffTime = currDate.getTime() - prevDate.getTime();
-    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
-
-    if (diffDays === 1) {
+    if (daysBetween(activeDates[i - 1], activeDates[i]) === 1) {
       tempStreak++;
       if (tempStreak > maxStreak) {
         maxStreak = tempStreak;
@@ -199,25 +349,25 @@ function calculateStreaks(
     maxStreakDays.add(activeDates[i]);
   }
 
-  const today = formatDateKey(new Date());
-  const yesterday = formatDateKey(new Date(Date.now() - 24 * 60 * 60 * 1000));
+  const today = formatDateKey(new Date(), timeZone);
+  const yesterday = addDays(today, -1);
 
   const currentStreak = dailyActivity.has(today)
-    ? countStreakBackwards(dailyActivity, new Date())
+    ? countStreakBackwards(dailyActivity, today)
     : dailyActivity.has(yesterday)
-      ? countStreakBackwards(dailyActivity, new Date(Date.now() - 24 * 60 * 60 * 1000))
+      ? countStreakBackwards(dailyActivity, yesterday)
       : 0;
 
   return { maxStreak, currentStreak, maxStreakDays };
 }
 
-function countStreakBackwards(dailyActivity: Map<string, number>, startDate: Date): number {
+function countStreakBackwards(dailyActivity: Map<string, number>, startDate: string): number {
   let streak = 1;
-  let checkDate = new Date(startDate);
+  let checkDate = startDate;
 
   while (true) {
-    checkDate = new Date(checkDate.getTime() - 24 * 60 * 60 * 1000);
-    if (dailyActivity.has(formatDateKey(checkDate))) {
+    checkDate = addDays(checkDate, -1);
+    if (dailyActivity.has(checkDate)) {
       streak++;
     } else {
       break;
@@ -233,8 +383,9 @@ function findMostActiveDay(dailyActivity: Map<string, number>): { date: string;
   let maxDate = "";
   let maxCount = 0;
 
+  // Ties go to the earliest day, whatever order the threads were read in
   for (const [date, count] of dailyActivity.entries()) {
-    if (count > maxCount) {
+    if (count > maxCount || (count === maxCount && date < maxDate)) {
       maxCount = count;
       maxDate = date;
     }
@@ -242,10 +393,9 @@ function findMostActiveDay(dailyActivity: Map<string, number>): { date: string;
 
   if (!maxDate) return null;
 
-  const [year, month, day] = maxDate.split("-").map(Number);
-  const dateObj = new Date(year, month - 1, day);
+  const [, month, day] = maxDate.split("-").map(Number);
   const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-  const formattedDate = `${monthNames[dateObj.getMonth()]} ${dateObj.getDate()}`;
+  const formattedDate = `${monthNames[month - 1]} ${day}`;
 
   return { date: maxDate, count: maxCount, formattedDate };
 }
@@ -269,3 +419,54 @@ function buildWeekdayActivity(counts: [number, number, number, number, number, n
     maxCount,
   };
 }
+
+// Hour windows (inclusive, may wrap past midnight) that name the user's chronotype
+const CHRONOTYPES: Array<{ id: AmpChronotype["id"]; name: string; startHour: number; endHour: number }> = [
+  { id: "early-bird", name: "Early Bird", startHour: 5, endHour: 10 },
+  { id: "daytime", name: "Daytime Coder", startHour: 11, endHour: 16 },
+  { id: "evening", name: "Evening Hacker", startHour: 17, endHour: 21 },
+  { id: "night-owl", name: "Night Owl", startHour: 22, endHour: 4 },
+];
+
+function buildHourlyActivity(counts: number[], weekdayHourCounts: number[][]): AmpHourlyActivity {
+  let peakHour = 0;
+  let maxCount = 0;
+  for (let hour = 0; hour < 24; hour++) {
+    if (counts[hour] > maxCount) {
+      maxCount = counts[hour];
+      peakHour = hour;
+    }
+  }
+
+  return {
+    counts,
+    weekdayHourCounts,
+    peakHour,
+    maxCount,
+    chronotype: maxCount > 0 ? findChronotype(counts, peakHour) : null,
+  };
+}
+
+/**
+ * The chronotype is the window containing the peak hour; the description says
+ * how much of the activity falls in that window.
+ */
+function findChronotype(counts: number[], peakHour: number): AmpChronotype {
+  const isInWindow = (hour: number, startHour: number, endHour: number) =>
+    startHour <= endHour ? hour >= startHour && hour <= endHour : hour >= startHour || hour <= endHour;
+
+  const window = CHRONOTYPES.find((c) => isInWindow(peakHour, c.startHour, c.endHour)) ?? CHRONOTYPES[0];
+
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const inWindow = counts.reduce(
+    (sum, count, hour) => (isInWindow(hour, window.startHour, window.endHour) ? sum + count : sum),
+    0
+  );
+  const share = total > 0 ? Math.round((inWindow / total) * 100) : 0;
+
+  return {
+    id: window.id,
+    name: window.name,
+    description: `${share}% of messages sent between ${formatHour(window.startHour)} and ${formatHour((window.endHour + 1) % 24)}, peaking at ${formatHour(peakHour)}`,
+  };
+}
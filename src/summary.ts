@@ -0,0 +1,193 @@
+// Text summaries - the stats as plain text for the card command's recap and the stats command
+
+import { formatCount, formatDate, formatEditReadRatio, formatHour, formatNumber, formatNumberFull } from "./utils/format";
+import type { AmpCodeStats, AmpToolUsage } from "./types";
+
+export type ColumnAlign = "left" | "right";
+
+/**
+ * The short recap shown before the card is generated
+ */
+export function formatSummaryLines(stats: AmpCodeStats): string[] {
+  const lines = [
+    `Threads:       ${formatNumber(stats.totalSessions)}`,
+    `Messages:      ${formatNumber(stats.totalMessages)}`,
+    `Total Tokens:  ${formatNumber(stats.totalTokens)}`,
+    `Projects:      ${formatNumber(stats.totalProjects)}`,
+    `Streak:        ${formatCount(stats.maxStreak, "days")}`,
+    stats.hasCredits && `Credits Used:  ${stats.totalCredits.toFixed(2)}`,
+    stats.mostActiveDay && `Most Active:   ${stats.mostActiveDay.formattedDate}`,
+    stats.hourlyActivity.chronotype &&
+      `Peak Hour:     ${formatHour(stats.hourlyActivity.peakHour)} (${stats.hourlyActivity.chronotype.name})`,
+  ].filter((line): line is string => Boolean(line));
+
+  if (stats.toolUsage.totalCalls > 0) {
+    const { toolUsage } = stats;
+    lines.push(
+      "",
+      `Tool Calls:    ${formatNumber(toolUsage.totalCalls)} (${describeEditReadRatio(toolUsage)})`,
+      `Top Tools:     ${toolUsage.topTools.map((tool) => `${tool.name} (${formatNumber(tool.count)})`).join(", ")}`
+    );
+    if (toolUsage.commandsRun > 0) {
+      lines.push(
+        `Commands Run:  ${formatNumber(toolUsage.commandsRun)}`,
+        `Top Commands:  ${toolUsage.topCommands.map((cmd) => `${cmd.command} (${formatNumber(cmd.count)})`).join(", ")}`
+      );
+    }
+  }
+
+  if (stats.topModels.length > 0) {
+    lines.push("", "Top Models:");
+    stats.topModels.forEach((model, i) => {
+      lines.push(
+        `  ${i + 1}. ${model.name}  ${model.percentage.toFixed(1)}%, ${formatCount(model.count, "tokens", formatNumber)}` +
+          (stats.hasCredits ? `, ${model.credits.toFixed(2)} credits` : "")
+      );
+    });
+    const otherModels = stats.models.length - stats.topModels.length;
+    if (otherModels > 0) {
+      lines.push(`  + ${otherModels} more`);
+    }
+  }
+
+  if (stats.topProjects.length > 0) {
+    lines.push("", "Top Projects:");
+    stats.topProjects.forEach((project, i) => {
+      lines.push(
+        `  ${i + 1}. ${project.name}  ${formatCount(project.threads, "threads", formatNumber)}, ${formatCount(project.messages, "messages", formatNumber)}, ${project.activeDays}d`
+      );
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Every stat as aligned tables, with exact numbers rather than the rounded
+ * ones on the card
+ */
+export function formatStatsReport(stats: AmpCodeStats): string[] {
+  const lines = [`Amp Wrapped ${stats.range.label} (${stats.range.start} to ${stats.range.end}, ${stats.timeZone})`];
+
+  const overview: string[][] = [
+    ["Threads", formatNumberFull(stats.totalSessions)],
+    ["Messages", formatNumberFull(stats.totalMessages)],
+    ["Projects", formatNumberFull(stats.totalProjects)],
+    ["Input tokens", formatNumberFull(stats.totalInputTokens)],
+    ["Output tokens", formatNumberFull(stats.totalOutputTokens)],
+    ["Cache read tokens", formatNumberFull(stats.totalCacheReadTokens)],
+    ["Total tokens", formatNumberFull(stats.totalTokens)],
+    ["Cache hit rate", `${stats.cacheHitRate.toFixed(1)}%`],
+  ];
+  if (stats.hasCredits) {
+    overview.push(["Credits", stats.totalCredits.toFixed(2)]);
+  }
+  overview.push(
+    ["First thread", formatDate(stats.firstSessionDate, stats.timeZone)],
+    ["Longest streak", formatCount(stats.maxStreak, "days")],
+    ["Current streak", formatCount(stats.currentStreak, "days")]
+  );
+  if (stats.mostActiveDay) {
+    overview.push(["Most active day", `${stats.mostActiveDay.formattedDate} (${formatCount(stats.mostActiveDay.count, stats.heatmapMetric)})`]);
+  }
+  overview.push(["Busiest weekday", stats.weekdayActivity.mostActiveDayName]);
+  if (stats.hourlyActivity.chronotype) {
+    overview.push(["Peak hour", `${formatHour(stats.hourlyActivity.peakHour)} (${stats.hourlyActivity.chronotype.name})`]);
+  }
+  lines.push("", "Overview", ...formatTable(overview, ["left", "right"]));
+
+  if (stats.yearlyTotals.length > 1) {
+    const rows = stats.yearlyTotals.map((year) => [
+      String(year.year),
+      formatNumberFull(year.threads),
+      formatNumberFull(year.messages),
+      formatNumberFull(year.tokens),
+      ...(stats.hasCredits ? [year.credits.toFixed(2)] : []),
+      `${year.activeDays}d`,
+      `${year.maxStreak}d`,
+    ]);
+    const header = ["Year", "Threads", "Messages", "Tokens", ...(stats.hasCredits ? ["Credits"] : []), "Active", "Streak"];
+    lines.push("", "Years", ...formatTable([header, ...rows], ["left", "right", "right", "right", "right", "right", "right"]));
+  }
+
+  if (stats.topModels.length > 0) {
+    const rows = stats.topModels.map((model, i) => [
+      String(i + 1),
+      model.name,
+      `${model.percentage.toFixed(1)}%`,
+      formatNumberFull(model.count),
+      ...(stats.hasCredits ? [model.credits.toFixed(2)] : []),
+    ]);
+    const header = ["#", "Model", "Share", "Tokens", ...(stats.hasCredits ? ["Credits"] : [])];
+    lines.push("", "Models", ...formatTable([header, ...rows], ["right", "left", "right", "right", "right"]));
+
+    const otherModels = stats.models.length - stats.topModels.length;
+    if (otherModels > 0) {
+      lines.push(`  + ${otherModels} more (use --top to list them)`);
+    }
+  }
+
+  if (stats.topProviders.length > 0) {
+    const rows = stats.topProviders.map((provider, i) => [
+      String(i + 1),
+      provider.name,
+      `${provider.percentage.toFixed(1)}%`,
+      formatNumberFull(provider.count),
+      ...(stats.hasCredits ? [provider.credits.toFixed(2)] : []),
+    ]);
+    const header = ["#", "Provider", "Share", "Tokens", ...(stats.hasCredits ? ["Credits"] : [])];
+    lines.push("", "Providers", ...formatTable([header, ...rows], ["right", "left", "right", "right", "right"]));
+  }
+
+  if (stats.topProjects.length > 0) {
+    const rows = stats.topProjects.map((project, i) => [
+      String(i + 1),
+      project.name,
+      formatNumberFull(project.threads),
+      formatNumberFull(project.messages),
+      formatNumberFull(project.tokens),
+      `${project.activeDays}d`,
+    ]);
+    const header = ["#", "Project", "Threads", "Messages", "Tokens", "Active"];
+    lines.push("", "Projects", ...formatTable([header, ...rows], ["right", "left", "right", "right", "right", "right"]));
+  }
+
+  if (stats.toolUsage.totalCalls > 0) {
+    const { toolUsage } = stats;
+    const rows = toolUsage.topTools.map((tool, i) => [
+      String(i + 1),
+      tool.name,
+      `${tool.percentage.toFixed(1)}%`,
+      formatNumberFull(tool.count),
+    ]);
+    lines.push(
+      "",
+      `Tools (${formatCount(toolUsage.totalCalls, "calls")}, ${describeEditReadRatio(toolUsage)})`,
+      ...formatTable([["#", "Tool", "Share", "Calls"], ...rows], ["right", "left", "right", "right"])
+    );
+  }
+
+  return lines;
+}
+
+function describeEditReadRatio(toolUsage: AmpToolUsage): string {
+  const ratio = formatEditReadRatio(toolUsage.editReadRatio, toolUsage.categoryCounts.edit);
+  return toolUsage.editReadRatio === null ? ratio : `${ratio} edits per read`;
+}
+
+/**
+ * Lay rows out in columns padded to the widest cell, indented by two spaces
+ */
+export function formatTable(rows: string[][], align: ColumnAlign[]): string[] {
+  const widths: number[] = [];
+  for (const row of rows) {
+    row.forEach((cell, i) => {
+      widths[i] = Math.max(widths[i] ?? 0, cell.length);
+    });
+  }
+
+  return rows.map((row) => {
+    const cells = row.map((cell, i) => (align[i] === "right" ? cell.padStart(widths[i]) : cell.padEnd(widths[i])));
+    return `  ${cells.join("  ")}`.trimEnd();
+  });
+}
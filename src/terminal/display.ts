@@ -1,22 +1,87 @@
-// Custom terminal image display with Ghostty, Kitty, iTerm2, and fallback support
+// Custom terminal image display with Ghostty, Kitty, iTerm2, sixel, and fallback support
 
-export type TerminalType = "ghostty" | "kitty" | "iterm" | "wezterm" | "konsole" | "vscode" | "warp" | "standard";
+import type { GeneratedImage, RgbaImage } from "../image/generator";
+import { detectMultiplexer, wrapPassthrough, type Multiplexer } from "./multiplexer";
+import { queryCapabilities, type CellSize, type TerminalCapabilities } from "./query";
+import { encodeSixel, scaleImage } from "./sixel";
+
+// Used when the terminal doesn't report its cell size; close to most default fonts
+const DEFAULT_CELL_SIZE: CellSize = { width: 10, height: 20 };
+
+export type TerminalType =
+  | "ghostty"
+  | "kitty"
+  | "iterm"
+  | "wezterm"
+  | "konsole"
+  | "vscode"
+  | "warp"
+  | "foot"
+  | "mlterm"
+  | "windows-terminal"
+  | "standard";
 
 export interface TerminalInfo {
   type: TerminalType;
   supportsKittyProtocol: boolean;
   supportsITerm2Protocol: boolean;
+  /** Known from the environment; other terminals are asked with a DA1 query */
+  supportsSixel: boolean;
+  /** tmux or screen between us and the terminal, which need graphics wrapped for passthrough */
+  multiplexer?: Multiplexer;
+}
+
+export type ImageProtocol = "kitty" | "iterm" | "sixel";
+
+/**
+ * - auto: pick the best protocol the terminal supports
+ * - kitty, iterm, sixel: use this protocol without checking for support
+ * - text: skip the image and show the text version of the card
+ */
+export type ImageProtocolSetting = "auto" | ImageProtocol | "text";
+
+export const IMAGE_PROTOCOLS: ImageProtocolSetting[] = ["auto", "kitty", "iterm", "sixel", "text"];
+
+/**
+ * Parse an `--image-protocol` value. Throws with a user-facing message on
+ * unknown protocols.
+ */
+export function parseImageProtocol(value: string): ImageProtocolSetting {
+  const protocol = IMAGE_PROTOCOLS.find((p) => p === value.trim().toLowerCase());
+  if (!protocol) {
+    throw new Error(`Invalid --image-protocol "${value}". Expected one of: ${IMAGE_PROTOCOLS.join(", ")}.`);
+  }
+  return protocol;
+}
+
+/**
+ * Where the card goes on screen, in cells and in pixels. It's shrunk to fit
+ * the terminal's width and height, leaving a row for the output after it.
+ */
+interface Placement {
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  /** Which side the terminal limits, the one to give protocols that scale for us */
+  fitTo: "columns" | "rows";
 }
 
+/**
+ * Inside tmux and screen, TERM and TERM_PROGRAM describe the multiplexer, so
+ * the checks below also look at variables the terminal itself sets, which
+ * the multiplexer passes on.
+ */
 export function detectTerminal(): TerminalInfo {
   const env = process.env;
 
   let type: TerminalType = "standard";
   let supportsKittyProtocol = false;
   let supportsITerm2Protocol = false;
+  let supportsSixel = false;
 
   // Ghostty - supports Kitty graphics protocol
-  if (env.TERM === "xterm-ghostty") {
+  if (env.TERM === "xterm-ghostty" || env.GHOSTTY_RESOURCES_DIR) {
     type = "ghostty";
     supportsKittyProtocol = true;
   }
@@ -26,13 +91,13 @@ export function detectTerminal(): TerminalInfo {
     supportsKittyProtocol = true;
   }
   // WezTerm - supports both Kitty and iTerm2 protocols
-  else if (env.TERM_PROGRAM === "WezTerm") {
+  else if (env.TERM_PROGRAM === "WezTerm" || env.WEZTERM_PANE) {
     type = "wezterm";
     supportsKittyProtocol = true;
     supportsITerm2Protocol = true;
   }
   // iTerm2
-  else if (env.TERM_PROGRAM === "iTerm.app") {
+  else if (env.TERM_PROGRAM === "iTerm.app" || env.LC_TERMINAL === "iTerm2") {
     type = "iterm";
     supportsITerm2Protocol = true;
   }
@@ -49,11 +114,27 @@ export function detectTerminal(): TerminalInfo {
     type = "warp";
     supportsKittyProtocol = true;
   }
+  // foot - sixel only
+  else if (env.TERM === "foot" || env.TERM === "foot-extra") {
+    type = "foot";
+    supportsSixel = true;
+  }
+  // mlterm - sixel only
+  else if (env.TERM === "mlterm" || env.MLTERM) {
+    type = "mlterm";
+    supportsSixel = true;
+  }
+  // Windows Terminal - sixel since 1.22, older versions are caught by the DA1 query
+  else if (env.WT_SESSION) {
+    type = "windows-terminal";
+  }
 
   return {
     type,
     supportsKittyProtocol,
     supportsITerm2Protocol,
+    supportsSixel,
+    multiplexer: detectMultiplexer(env),
   };
 }
 
@@ -61,9 +142,15 @@ export function detectTerminal(): TerminalInfo {
  * Display image using Kitty graphics protocol
  * https://sw.kovidgoyal.net/kitty/graphics-protocol/
  */
-function displayKittyProtocol(pngBuffer: Buffer): void {
+function displayKittyProtocol(pngBuffer: Buffer, placement: Placement, multiplexer?: Multiplexer): void {
   const base64Data = pngBuffer.toString("base64");
   const chunkSize = 4096;
+  // c/r scale to that many cells, the other side follows the aspect ratio
+  const size = placement.fitTo === "columns" ? `c=${placement.columns}` : `r=${placement.rows}`;
+  // The multiplexer doesn't know the image moved the cursor, so keep it put (C=1) and move it ourselves
+  const cursor = multiplexer ? ",C=1" : "";
+
+  if (multiplexer) reserveRows(placement.rows);
 
   for (let i = 0; i < base64Data.length; i += chunkSize) {
     const chunk = base64Data.slice(i, i + chunkSize);
@@ -71,45 +158,127 @@ function displayKittyProtocol(pngBuffer: Buffer): void {
 
     if (i === 0) {
       // First chunk: a=T (transmit and display), f=100 (PNG), m=1 (more data) or m=0 (last)
-      process.stdout.write(`\x1b_Ga=T,f=100,m=${isLast ? 0 : 1};${chunk}\x1b\\`);
+      process.stdout.write(wrapPassthrough(`\x1b_Ga=T,f=100,${size}${cursor},m=${isLast ? 0 : 1};${chunk}\x1b\\`, multiplexer));
     } else {
       // Subsequent chunks
-      process.stdout.write(`\x1b_Gm=${isLast ? 0 : 1};${chunk}\x1b\\`);
+      process.stdout.write(wrapPassthrough(`\x1b_Gm=${isLast ? 0 : 1};${chunk}\x1b\\`, multiplexer));
     }
   }
 
-  // Add newline after image
-  process.stdout.write("\n");
+  if (multiplexer) {
+    process.stdout.write(`\x1b[${placement.rows}B\n`);
+  } else {
+    // Add newline after image
+    process.stdout.write("\n");
+  }
 }
 
 /**
  * Display image using iTerm2 inline images protocol
  * https://iterm2.com/documentation-images.html
  */
-function displayITerm2Protocol(pngBuffer: Buffer): void {
+function displayITerm2Protocol(pngBuffer: Buffer, placement: Placement, multiplexer?: Multiplexer): void {
   const base64Data = pngBuffer.toString("base64");
   const filename = Buffer.from("amp-wrapped.png").toString("base64");
+  // Sizes without a unit are in cells; the aspect ratio is kept
+  const size = placement.fitTo === "columns" ? `width=${placement.columns}` : `height=${placement.rows}`;
+
+  if (multiplexer) reserveRows(placement.rows);
 
   // OSC 1337 ; File=[args] : base64data ST
-  process.stdout.write(`\x1b]1337;File=name=${filename};size=${pngBuffer.length};inline=1:${base64Data}\x07\n`);
+  process.stdout.write(
+    wrapPassthrough(`\x1b]1337;File=name=${filename};size=${pngBuffer.length};${size};inline=1:${base64Data}\x07`, multiplexer)
+  );
+
+  process.stdout.write(multiplexer ? `\x1b[${placement.rows}B\n` : "\n");
 }
 
-export async function displayInTerminal(pngBuffer: Buffer): Promise<boolean> {
+/**
+ * Display image as sixels, for foot, mlterm, xterm -ti vt340, Windows Terminal
+ * and others that have no Kitty or iTerm2 support. Sixels are drawn by the
+ * multiplexer when there is one (tmux 3.4 can), so they're never wrapped.
+ */
+function displaySixel(image: RgbaImage, placement: Placement): void {
+  process.stdout.write(encodeSixel(scaleImage(image, placement.width, placement.height)));
+  process.stdout.write("\n");
+}
+
+/**
+ * Scroll enough blank lines into view for the image and go back up to draw
+ * it, so the multiplexer keeps that space clear of the output that follows.
+ */
+function reserveRows(rows: number): void {
+  process.stdout.write(`${"\n".repeat(rows)}\x1b[${rows}A`);
+}
+
+/**
+ * Shrink the image to the terminal, never enlarging it. The cell size turns
+ * pixels into cells; without it a typical font's cell is assumed.
+ */
+function placeImage(image: RgbaImage, cellSize: CellSize = DEFAULT_CELL_SIZE): Placement {
+  const maxWidth = (process.stdout.columns || 80) * cellSize.width;
+  const maxHeight = Math.max(1, (process.stdout.rows || 24) - 1) * cellSize.height;
+
+  const widthScale = maxWidth / image.width;
+  const heightScale = maxHeight / image.height;
+  const scale = Math.min(1, widthScale, heightScale);
+
+  const width = Math.max(1, Math.floor(image.width * scale));
+  const height = Math.max(1, Math.floor(image.height * scale));
+
+  return {
+    columns: Math.ceil(width / cellSize.width),
+    rows: Math.ceil(height / cellSize.height),
+    width,
+    height,
+    fitTo: widthScale <= heightScale ? "columns" : "rows",
+  };
+}
+
+/**
+ * The protocol to draw with: the one asked for, or the best one the terminal
+ * supports, going by the environment first and the terminal's answers to
+ * capability queries after that.
+ */
+export function resolveImageProtocol(
+  setting: ImageProtocolSetting,
+  terminal: TerminalInfo,
+  capabilities: TerminalCapabilities | undefined
+): ImageProtocol | undefined {
+  if (setting === "text") return undefined;
+  if (setting !== "auto") return setting;
+
+  if (terminal.supportsKittyProtocol || capabilities?.kittyGraphics) return "kitty";
+  if (terminal.supportsITerm2Protocol) return "iterm";
+  if (terminal.supportsSixel || capabilities?.sixel) return "sixel";
+
+  return undefined;
+}
+
+export async function displayInTerminal(image: GeneratedImage, setting: ImageProtocolSetting = "auto"): Promise<boolean> {
+  if (setting === "text") return false;
+
   const terminal = detectTerminal();
+  // Asked even when the protocol is forced, for the cell size
+  const capabilities = await queryCapabilities(terminal.multiplexer);
+  const protocol = resolveImageProtocol(setting, terminal, capabilities);
+  const placement = placeImage(image.displayPixels, capabilities?.cellSize);
 
   try {
-    if (terminal.supportsKittyProtocol) {
-      displayKittyProtocol(pngBuffer);
-      return true;
-    }
-
-    if (terminal.supportsITerm2Protocol) {
-      displayITerm2Protocol(pngBuffer);
-      return true;
+    switch (protocol) {
+      case "kitty":
+        displayKittyProtocol(image.displaySize, placement, terminal.multiplexer);
+        return true;
+      case "iterm":
+        displayITerm2Protocol(image.displaySize, placement, terminal.multiplexer);
+        return true;
+      case "sixel":
+        displaySixel(image.displayPixels, placement);
+        return true;
+      default:
+        // No native image support
+        return false;
     }
-
-    // No native image support
-    return false;
   } catch {
     return false;
   }
@@ -117,5 +286,5 @@ export async function displayInTerminal(pngBuffer: Buffer): Promise<boolean> {
 
 export function getTerminalName(): string {
   const terminal = detectTerminal();
-  return terminal.type;
+  return terminal.multiplexer ? `${terminal.type} in ${terminal.multiplexer}` : terminal.type;
 }
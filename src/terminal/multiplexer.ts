@@ -0,0 +1,53 @@
+// Terminal multiplexers - tmux and screen swallow graphics escapes unless they're wrapped for passthrough
+
+export type Multiplexer = "tmux" | "screen";
+
+// screen drops DCS strings longer than this, so passthrough is split into pieces
+const SCREEN_CHUNK_SIZE = 760;
+
+export function detectMultiplexer(env: NodeJS.ProcessEnv = process.env): Multiplexer | undefined {
+  if (env.TMUX) return "tmux";
+  if (env.STY || env.TERM?.startsWith("screen")) return "screen";
+  return undefined;
+}
+
+/**
+ * Wrap an escape sequence so the multiplexer hands it to the terminal it
+ * runs in instead of interpreting it. tmux needs `allow-passthrough on`
+ * (tmux 3.3 and later) for this to reach the terminal.
+ */
+export function wrapPassthrough(sequence: string, multiplexer: Multiplexer | undefined): string {
+  switch (multiplexer) {
+    case "tmux":
+      // Every ESC inside the passthrough is doubled
+      return `\x1bPtmux;${sequence.replaceAll("\x1b", "\x1b\x1b")}\x1b\\`;
+    case "screen":
+      return wrapForScreen(sequence);
+    default:
+      return sequence;
+  }
+}
+
+/**
+ * screen passes DCS contents through as they are but ends the string at the
+ * first ST, including ones inside the sequence. Ending a piece right after
+ * each ESC keeps the inner ST apart: the ESC goes out with one piece and the
+ * backslash starts the next, and the terminal sees them back to back.
+ */
+function wrapForScreen(sequence: string): string {
+  const pieces: string[] = [];
+  let start = 0;
+
+  while (start < sequence.length) {
+    let end = Math.min(start + SCREEN_CHUNK_SIZE, sequence.length);
+    const escape = sequence.indexOf("\x1b", start);
+    if (escape !== -1 && escape < end) {
+      end = escape + 1;
+    }
+
+    pieces.push(`\x1bP${sequence.slice(start, end)}\x1b\\`);
+    start = end;
+  }
+
+  return pieces.join("");
+}
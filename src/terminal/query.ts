@@ -0,0 +1,128 @@
+// Terminal queries - ask the terminal what it supports and read the reply from stdin
+
+import { wrapPassthrough, type Multiplexer } from "./multiplexer";
+
+// Local terminals reply within a few milliseconds; the rest is headroom for SSH
+export const QUERY_TIMEOUT_MS = 300;
+
+// How much longer a reply that is still on its way is read and thrown away, so it
+// doesn't reach the prompts that follow as keystrokes
+const LATE_REPLY_TIMEOUT_MS = 1000;
+
+// Kitty graphics query for a 1x1 image; only terminals that can draw it answer "OK"
+const KITTY_GRAPHICS_QUERY = "\x1b_Gi=31,s=1,v=1,a=q,t=d,f=24;AAAA\x1b\\";
+
+// Reports the pixel size of one character cell as CSI 6 ; height ; width t
+const CELL_SIZE_QUERY = "\x1b[16t";
+
+// Primary Device Attributes (DA1). Every VT-compatible terminal answers it, so it goes
+// last and its reply marks the end of the others
+const DEVICE_ATTRIBUTES_QUERY = "\x1b[c";
+
+export interface CellSize {
+  width: number;
+  height: number;
+}
+
+export interface TerminalCapabilities {
+  /** Answered the Kitty graphics query */
+  kittyGraphics: boolean;
+  /** Listed sixel graphics (attribute 4) in its device attributes */
+  sixel: boolean;
+  /** Pixel size of a character cell, when the terminal reports it */
+  cellSize?: CellSize;
+}
+
+/**
+ * Write an escape sequence query and collect the terminal's reply until
+ * `isComplete` accepts it. Resolves with whatever arrived when the timeout
+ * hits first, and undefined when stdin and stdout aren't a terminal or
+ * nothing arrived, so callers fall back to guessing from the environment.
+ *
+ * After the timeout stdin stays in raw mode, discarding input until the reply
+ * is complete or LATE_REPLY_TIMEOUT_MS passes, and anything still buffered is
+ * dropped before stdin is handed back.
+ */
+export function queryTerminal(
+  query: string,
+  isComplete: (reply: string) => boolean,
+  timeoutMs = QUERY_TIMEOUT_MS
+): Promise<string | undefined> {
+  const { stdin, stdout } = process;
+  if (!stdin.isTTY || !stdout.isTTY) {
+    return Promise.resolve(undefined);
+  }
+
+  const wasRaw = stdin.isRaw;
+
+  return new Promise((resolve) => {
+    let reply = "";
+    // What had arrived when the timeout hit; set from then on
+    let result: string | undefined;
+    let timedOut = false;
+    let lateTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      clearTimeout(timer);
+      clearTimeout(lateTimer);
+      stdin.off("data", onData);
+      // Hand stdin back paused and empty so prompts that follow start from a clean state
+      stdin.pause();
+      while (stdin.read() !== null) {
+        // Discard
+      }
+      stdin.setRawMode(wasRaw);
+      resolve(timedOut ? result : reply);
+    };
+
+    const onData = (chunk: Buffer | string) => {
+      reply += typeof chunk === "string" ? chunk : chunk.toString("latin1");
+      if (isComplete(reply)) finish();
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      result = reply || undefined;
+      lateTimer = setTimeout(finish, LATE_REPLY_TIMEOUT_MS);
+    }, timeoutMs);
+
+    stdin.setRawMode(true);
+    stdin.on("data", onData);
+    stdin.resume();
+    stdout.write(query);
+  });
+}
+
+/**
+ * Ask for Kitty graphics support, the cell size and the device attributes in
+ * one round trip. Inside a multiplexer the Kitty query goes to the terminal
+ * behind it through passthrough, while the cell size and device attributes
+ * come from the multiplexer itself, since that's what will draw any sixels.
+ */
+export async function queryCapabilities(multiplexer?: Multiplexer): Promise<TerminalCapabilities | undefined> {
+  const query = multiplexer
+    ? wrapPassthrough(KITTY_GRAPHICS_QUERY + DEVICE_ATTRIBUTES_QUERY, multiplexer) + CELL_SIZE_QUERY + DEVICE_ATTRIBUTES_QUERY
+    : KITTY_GRAPHICS_QUERY + CELL_SIZE_QUERY + DEVICE_ATTRIBUTES_QUERY;
+  // The wrapped DA1 gets its own reply from the outer terminal
+  const expectedReplies = multiplexer ? 2 : 1;
+
+  const reply = await queryTerminal(query, (text) => matchDeviceAttributes(text).length >= expectedReplies);
+  if (!reply) return undefined;
+
+  // The multiplexer answers its own DA1 locally, so its reply comes first
+  const [attributes] = matchDeviceAttributes(reply);
+  const cellSize = /\x1b\[6;(\d+);(\d+)t/.exec(reply);
+
+  return {
+    kittyGraphics: /\x1b_Gi=31;OK/.test(reply),
+    // The first value is the terminal's conformance level, not an attribute
+    sixel: attributes?.split(";").slice(1).includes("4") ?? false,
+    cellSize: cellSize && Number(cellSize[1]) > 0 && Number(cellSize[2]) > 0
+      ? { width: Number(cellSize[2]), height: Number(cellSize[1]) }
+      : undefined,
+  };
+}
+
+function matchDeviceAttributes(text: string): string[] {
+  return [...text.matchAll(/\x1b\[\?([\d;]*)c/g)].map((match) => match[1]);
+}
@@ -0,0 +1,317 @@
+// Text report - the card's content drawn with Unicode blocks and ANSI colors, for terminals without inline images
+
+import { getHeatmapColors, type AmpColors } from "../image/design-tokens";
+import { generateWeeksForRange, getIntensityLevel, getWeekday } from "../utils/dates";
+import { formatCount, formatDate, formatNumber, formatNumberFull } from "../utils/format";
+import type { AmpCodeStats } from "../types";
+
+/**
+ * - truecolor: 24-bit colors, exactly the card's palette
+ * - 256: the nearest of the xterm 256 colors
+ * - none: no escape codes; heatmap levels are told apart by shade characters
+ */
+export type ColorDepth = "truecolor" | "256" | "none";
+
+export interface TerminalReportOptions {
+  colors: AmpColors;
+  colorDepth?: ColorDepth;
+  /** Columns available (default: the terminal width, or 80) */
+  width?: number;
+}
+
+interface Painter {
+  fg(hex: string, text: string): string;
+  bold(text: string): string;
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Heatmap cells without color, from no activity to the busiest day
+const SHADES = ["·", "░", "░", "▒", "▒", "▓", "█"];
+const HEATMAP_CELL = "■";
+
+// Partial blocks for bar ends, in eighths
+const BAR_EIGHTHS = ["", "▏", "▎", "▍", "▌", "▋", "▊", "▉"];
+const SPARK_LEVELS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
+
+const LABEL_WIDTH = 4;
+const BAR_WIDTH = 30;
+const MAX_WIDTH = 100;
+
+/**
+ * Honors NO_COLOR, then COLORTERM for 24-bit color. Anything that isn't a
+ * dumb terminal gets 256 colors, which every current emulator supports.
+ */
+export function detectColorDepth(env: NodeJS.ProcessEnv = process.env): ColorDepth {
+  if (env.NO_COLOR) return "none";
+  if (env.COLORTERM === "truecolor" || env.COLORTERM === "24bit") return "truecolor";
+  if (!env.TERM || env.TERM === "dumb") return "none";
+  return "256";
+}
+
+/**
+ * Render the stats as lines of text: hero numbers, the activity heatmap,
+ * weekday bars, daily rhythm and the rankings from the card.
+ */
+export function renderTerminalReport(stats: AmpCodeStats, options: TerminalReportOptions): string[] {
+  const { colors } = options;
+  const colorDepth = options.colorDepth ?? detectColorDepth();
+  const width = Math.min(options.width ?? (process.stdout.columns || 80), MAX_WIDTH);
+  const paint = createPainter(colorDepth);
+
+  const lines: string[] = [
+    "",
+    `${paint.bold(paint.fg(colors.text.primary, "amp"))} ${paint.fg(colors.text.tertiary, "wrapped")} ${paint.bold(paint.fg(colors.accent.primary, stats.range.label))}`,
+    paint.fg(colors.text.muted, `${stats.range.start} to ${stats.range.end} · since ${formatDate(stats.firstSessionDate, stats.timeZone)}`),
+    "",
+    ...renderHeroStats(stats, colors, paint, width),
+  ];
+
+  if (stats.yearlyTotals.length > 1) {
+    lines.push("", sectionHeader("Years", colors, paint), ...renderYearBars(stats, colors, paint));
+  }
+
+  lines.push(
+    "",
+    sectionHeader("Activity", colors, paint),
+    ...renderHeatmap(stats, colors, paint, colorDepth, width),
+    "",
+    sectionHeader("Weekly", colors, paint),
+    ...renderWeekdayBars(stats, colors, paint)
+  );
+
+  if (stats.totalMessages > 0) {
+    lines.push("", ...renderDailyRhythm(stats, colors, paint));
+  }
+
+  const modelItems = stats.topModels.map((model) => ({ name: model.name, share: model.percentage / 100 }));
+  const providerItems = stats.topProviders.map((provider) => ({ name: provider.name, share: provider.percentage / 100 }));
+  const projectItems = stats.topProjects.map((project) => ({ name: project.name, value: formatCount(project.messages, "msgs", formatNumber) }));
+  const toolItems = stats.toolUsage.topTools.map((tool) => ({ name: tool.name, share: tool.percentage / 100 }));
+
+  for (const [title, items] of [
+    ["Top Models", modelItems],
+    ["Top Providers", providerItems],
+    ["Top Projects", projectItems],
+    ["Top Tools", toolItems],
+  ] as const) {
+    if (items.length > 0) {
+      lines.push("", sectionHeader(title, colors, paint), ...renderRanking(items, colors, paint));
+    }
+  }
+
+  lines.push("", paint.fg(colors.text.muted, "ampcode.com"), "");
+  return lines;
+}
+
+function sectionHeader(title: string, colors: AmpColors, paint: Painter): string {
+  return paint.bold(paint.fg(colors.text.secondary, title.toUpperCase()));
+}
+
+function renderHeroStats(stats: AmpCodeStats, colors: AmpColors, paint: Painter, width: number): string[] {
+  const items: Array<[string, string]> = [
+    ["Threads", formatNumberFull(stats.totalSessions)],
+    ["Messages", formatNumberFull(stats.totalMessages)],
+    ["Tokens", formatNumberFull(stats.totalTokens)],
+    ["Projects", formatNumberFull(stats.totalProjects)],
+    ["Streak", `${stats.maxStreak}d`],
+  ];
+  if (stats.hasCredits) {
+    items.push(["Credits", stats.totalCredits.toFixed(2)]);
+  }
+
+  // As many columns as fit, so narrow terminals wrap instead of overflowing
+  const columnWidth = Math.max(...items.map(([label, value]) => Math.max(label.length, value.length))) + 4;
+  const perRow = Math.max(1, Math.min(items.length, Math.floor(width / columnWidth)));
+  const lines: string[] = [];
+
+  for (let i = 0; i < items.length; i += perRow) {
+    const row = items.slice(i, i + perRow);
+    lines.push(row.map(([label]) => paint.fg(colors.text.tertiary, label.toUpperCase().padEnd(columnWidth))).join("").trimEnd());
+    lines.push(row.map(([, value]) => paint.bold(paint.fg(colors.text.primary, value.padEnd(columnWidth)))).join("").trimEnd());
+  }
+
+  return lines;
+}
+
+function renderHeatmap(
+  stats: AmpCodeStats,
+  colors: AmpColors,
+  paint: Painter,
+  colorDepth: ColorDepth,
+  width: number
+): string[] {
+  // Long ranges keep their most recent weeks
+  const allWeeks = generateWeeksForRange(stats.range, stats.timeZone);
+  const weeks = allWeeks.slice(Math.max(0, allWeeks.length - (width - LABEL_WIDTH)));
+
+  const counts = Array.from(stats.dailyActivity.values());
+  const maxCount = counts.length > 0 ? Math.max(...counts) : 0;
+
+  // Day cells by weekday row, so a range starting mid-week lines up
+  const grid: Array<Array<string | null>> = Array.from({ length: 7 }, () => weeks.map(() => null));
+  weeks.forEach((week, weekIndex) => {
+    for (const dateKey of week) {
+      if (dateKey) grid[getWeekday(dateKey)][weekIndex] = dateKey;
+    }
+  });
+
+  const cell = (dateKey: string | null): string => {
+    if (!dateKey) return " ";
+
+    const level = getIntensityLevel(stats.dailyActivity.get(dateKey) ?? 0, maxCount);
+    if (colorDepth === "none") return SHADES[level];
+
+    const color = getHeatmapColors(colors, stats.maxStreakDays.has(dateKey))[level];
+    return paint.fg(color, HEATMAP_CELL);
+  };
+
+  const lines = [" ".repeat(LABEL_WIDTH) + paint.fg(colors.text.muted, getMonthLabelRow(weeks))];
+  grid.forEach((row, weekday) => {
+    // Mon, Wed and Fri are labelled, as on GitHub
+    const label = weekday % 2 === 1 ? WEEKDAYS[weekday] : "";
+    lines.push(paint.fg(colors.text.muted, label.padEnd(LABEL_WIDTH)) + row.map(cell).join("").trimEnd());
+  });
+
+  const legend = colorDepth === "none"
+    ? SHADES.filter((shade, i) => SHADES.indexOf(shade) === i).join("")
+    : getHeatmapColors(colors).map((color) => paint.fg(color, HEATMAP_CELL)).join("");
+  lines.push(`${" ".repeat(LABEL_WIDTH)}${paint.fg(colors.text.muted, "Less")} ${legend} ${paint.fg(colors.text.muted, "More")}`);
+
+  return lines;
+}
+
+function getMonthLabelRow(weeks: string[][]): string {
+  let row = "";
+  let lastMonth = -1;
+
+  weeks.forEach((week, weekIndex) => {
+    const first = week.find((dateKey) => dateKey);
+    if (!first) return;
+
+    const month = parseInt(first.slice(5, 7), 10) - 1;
+    if (month === lastMonth) return;
+    lastMonth = month;
+
+    // Skip a label that would run into the previous one
+    if (weekIndex < row.length + 1 && row.length > 0) return;
+    row = row.padEnd(weekIndex) + MONTHS[month];
+  });
+
+  return row;
+}
+
+function renderWeekdayBars(stats: AmpCodeStats, colors: AmpColors, paint: Painter): string[] {
+  const { counts, maxCount, mostActiveDay } = stats.weekdayActivity;
+
+  return counts.map((count, weekday) => {
+    const isTop = weekday === mostActiveDay && count > 0;
+    const bar = formatBar(maxCount > 0 ? count / maxCount : 0, BAR_WIDTH);
+    const label = paint.fg(isTop ? colors.accent.primary : colors.text.muted, WEEKDAYS[weekday].padEnd(LABEL_WIDTH));
+    const value = paint.fg(colors.text.tertiary, formatNumberFull(count));
+    return `${label}${paint.fg(isTop ? colors.accent.primary : colors.heatmap.level6, bar.padEnd(BAR_WIDTH))} ${value}`;
+  });
+}
+
+function renderYearBars(stats: AmpCodeStats, colors: AmpColors, paint: Painter): string[] {
+  const maxCount = Math.max(...stats.yearlyTotals.map((year) => year.count));
+  const busiest = stats.yearlyTotals.find((year) => year.count === maxCount && year.count > 0);
+
+  return stats.yearlyTotals.map((year) => {
+    const isTop = year === busiest;
+    const bar = formatBar(maxCount > 0 ? year.count / maxCount : 0, BAR_WIDTH);
+    const label = paint.fg(isTop ? colors.accent.primary : colors.text.muted, String(year.year).padEnd(LABEL_WIDTH + 1));
+    const value = paint.fg(colors.text.tertiary, `${formatCount(year.count, stats.heatmapMetric)} · ${year.maxStreak}d streak`);
+    return `${label}${paint.fg(isTop ? colors.accent.primary : colors.heatmap.level6, bar.padEnd(BAR_WIDTH))} ${value}`;
+  });
+}
+
+function renderDailyRhythm(stats: AmpCodeStats, colors: AmpColors, paint: Painter): string[] {
+  const { counts, maxCount, peakHour, chronotype } = stats.hourlyActivity;
+
+  const spark = counts
+    .map((count, hour) => {
+      const level = maxCount > 0 ? Math.round((count / maxCount) * (SPARK_LEVELS.length - 1)) : 0;
+      return paint.fg(hour === peakHour ? colors.accent.primary : colors.heatmap.level6, SPARK_LEVELS[level]);
+    })
+    .join("");
+
+  const title = sectionHeader("Daily Rhythm", colors, paint);
+  return [
+    chronotype ? `${title}  ${paint.bold(paint.fg(colors.accent.primary, chronotype.name))}` : title,
+    " ".repeat(LABEL_WIDTH) + spark,
+    " ".repeat(LABEL_WIDTH) + paint.fg(colors.text.muted, "12a   6a    12p   6p"),
+  ];
+}
+
+function renderRanking(
+  items: ReadonlyArray<{ name: string; share?: number; value?: string }>,
+  colors: AmpColors,
+  paint: Painter
+): string[] {
+  const nameWidth = Math.max(...items.map((item) => item.name.length));
+
+  return items.map((item, i) => {
+    const rank = paint.bold(paint.fg(i === 0 ? colors.accent.primary : colors.text.tertiary, String(i + 1).padEnd(LABEL_WIDTH - 1)));
+    const name = paint.fg(colors.text.primary, item.name.padEnd(nameWidth));
+
+    if (item.share === undefined) {
+      return `${rank} ${name}  ${paint.fg(colors.text.tertiary, item.value ?? "")}`;
+    }
+
+    const bar = formatBar(item.share, BAR_WIDTH / 2);
+    const share = `${(item.share * 100).toFixed(1)}%`;
+    return `${rank} ${name}  ${paint.fg(colors.accent.primary, bar.padEnd(BAR_WIDTH / 2))} ${paint.fg(colors.text.tertiary, share)}`;
+  });
+}
+
+/**
+ * A horizontal bar `ratio` of `width` columns long, to an eighth of a column
+ */
+function formatBar(ratio: number, width: number): string {
+  const eighths = Math.round(Math.max(0, Math.min(1, ratio)) * width * 8);
+  return "█".repeat(Math.floor(eighths / 8)) + BAR_EIGHTHS[eighths % 8];
+}
+
+function createPainter(colorDepth: ColorDepth): Painter {
+  if (colorDepth === "none") {
+    return { fg: (_hex, text) => text, bold: (text) => text };
+  }
+
+  const foreground = (hex: string): string => {
+    const [r, g, b] = hexToRgb(hex);
+    return colorDepth === "truecolor" ? `38;2;${r};${g};${b}` : `38;5;${rgbToAnsi256(r, g, b)}`;
+  };
+
+  return {
+    fg: (hex, text) => (text ? `\x1b[${foreground(hex)}m${text}\x1b[39m` : text),
+    bold: (text) => (text ? `\x1b[1m${text}\x1b[22m` : text),
+  };
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+// Channel values of the 6x6x6 color cube in the xterm 256 palette
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/**
+ * The nearest xterm 256 color: either a color cube entry or one of the 24
+ * grays, whichever is closer. Dark tints (like the heatmap's low levels)
+ * usually land on a gray.
+ */
+function rgbToAnsi256(r: number, g: number, b: number): number {
+  const nearestCube = (v: number) =>
+    CUBE_LEVELS.reduce((best, level, i) => (Math.abs(level - v) < Math.abs(CUBE_LEVELS[best] - v) ? i : best), 0);
+  const [cr, cg, cb] = [nearestCube(r), nearestCube(g), nearestCube(b)];
+  const cubeDistance = (CUBE_LEVELS[cr] - r) ** 2 + (CUBE_LEVELS[cg] - g) ** 2 + (CUBE_LEVELS[cb] - b) ** 2;
+
+  const grayIndex = Math.max(0, Math.min(23, Math.round(((r + g + b) / 3 - 8) / 10)));
+  const gray = 8 + grayIndex * 10;
+  const grayDistance = (gray - r) ** 2 + (gray - g) ** 2 + (gray - b) ** 2;
+
+  return grayDistance < cubeDistance ? 232 + grayIndex : 16 + 36 * cr + 6 * cg + cb;
+}
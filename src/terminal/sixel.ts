@@ -0,0 +1,191 @@
+// Sixel encoder - turns RGBA pixels into a DEC sixel image for terminals without Kitty or iTerm2 graphics
+
+import type { RgbaImage } from "../image/generator";
+
+// Sixel palettes are capped at 256 registers by most terminals
+const MAX_COLORS = 256;
+
+// Colors are bucketed at 5 bits per channel before the palette is picked
+const BUCKET_COUNT = 1 << 15;
+
+/**
+ * Encode an image as a sixel sequence, ready to write to the terminal.
+ * The palette is the most used colors of the image, which suits the card's
+ * flat backgrounds and anti-aliased text far better than a fixed cube.
+ * Transparent pixels are drawn over black.
+ */
+export function encodeSixel(image: RgbaImage, maxColors = MAX_COLORS): string {
+  const { width, height } = image;
+  const { palette, indices } = quantize(image, Math.min(maxColors, MAX_COLORS));
+
+  // P2=1 leaves pixels no color was drawn in untouched; "1;1 sets square pixels
+  const out: string[] = [`\x1bP0;1;0q"1;1;${width};${height}`];
+
+  palette.forEach(([r, g, b], i) => {
+    out.push(`#${i};2;${toPercent(r)};${toPercent(g)};${toPercent(b)}`);
+  });
+
+  // Each band is six pixel rows; every color in the band gets one pass over it
+  for (let top = 0; top < height; top += 6) {
+    const bandHeight = Math.min(6, height - top);
+    const bands = new Map<number, Uint8Array>();
+
+    for (let dy = 0; dy < bandHeight; dy++) {
+      const rowStart = (top + dy) * width;
+      for (let x = 0; x < width; x++) {
+        const colorIndex = indices[rowStart + x];
+        let bits = bands.get(colorIndex);
+        if (!bits) {
+          bits = new Uint8Array(width);
+          bands.set(colorIndex, bits);
+        }
+        bits[x] |= 1 << dy;
+      }
+    }
+
+    let first = true;
+    for (const [colorIndex, bits] of bands) {
+      // `$` returns to the start of the band for the next color
+      out.push(`${first ? "" : "$"}#${colorIndex}${encodeRow(bits)}`);
+      first = false;
+    }
+    out.push("-");
+  }
+
+  out.push("\x1b\\");
+  return out.join("");
+}
+
+/**
+ * One color's pass over a band, run-length encoded. Trailing empty columns
+ * are left out since the next pass starts over anyway.
+ */
+function encodeRow(bits: Uint8Array): string {
+  let end = bits.length;
+  while (end > 0 && bits[end - 1] === 0) end--;
+
+  let row = "";
+  let x = 0;
+  while (x < end) {
+    const value = bits[x];
+    let run = 1;
+    while (x + run < end && bits[x + run] === value) run++;
+
+    const char = String.fromCharCode(63 + value);
+    row += run > 3 ? `!${run}${char}` : char.repeat(run);
+    x += run;
+  }
+  return row;
+}
+
+/**
+ * Pick the `maxColors` most used colors (bucketed to 5 bits per channel and
+ * averaged) and map every pixel to the nearest of them.
+ */
+function quantize(image: RgbaImage, maxColors: number): { palette: Array<[number, number, number]>; indices: Uint8Array } {
+  const { pixels, width, height } = image;
+  const pixelCount = width * height;
+
+  const counts = new Uint32Array(BUCKET_COUNT);
+  const sums = new Float64Array(BUCKET_COUNT * 3);
+  const keys = new Uint16Array(pixelCount);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const alpha = pixels[i * 4 + 3] / 255;
+    const r = Math.round(pixels[i * 4] * alpha);
+    const g = Math.round(pixels[i * 4 + 1] * alpha);
+    const b = Math.round(pixels[i * 4 + 2] * alpha);
+
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    keys[i] = key;
+    counts[key]++;
+    sums[key * 3] += r;
+    sums[key * 3 + 1] += g;
+    sums[key * 3 + 2] += b;
+  }
+
+  const used: number[] = [];
+  for (let key = 0; key < BUCKET_COUNT; key++) {
+    if (counts[key] > 0) used.push(key);
+  }
+  used.sort((a, b) => counts[b] - counts[a]);
+
+  const palette = used.slice(0, maxColors).map((key): [number, number, number] => [
+    Math.round(sums[key * 3] / counts[key]),
+    Math.round(sums[key * 3 + 1] / counts[key]),
+    Math.round(sums[key * 3 + 2] / counts[key]),
+  ]);
+
+  // Buckets that made the palette map to themselves, the rest to the nearest entry
+  const bucketColor = new Int16Array(BUCKET_COUNT).fill(-1);
+  used.forEach((key, i) => {
+    if (i < palette.length) {
+      bucketColor[key] = i;
+      return;
+    }
+
+    const r = sums[key * 3] / counts[key];
+    const g = sums[key * 3 + 1] / counts[key];
+    const b = sums[key * 3 + 2] / counts[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    palette.forEach(([pr, pg, pb], index) => {
+      const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    });
+    bucketColor[key] = best;
+  });
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    indices[i] = bucketColor[keys[i]];
+  }
+
+  return { palette, indices };
+}
+
+function toPercent(channel: number): number {
+  return Math.round((channel / 255) * 100);
+}
+
+/**
+ * Shrink an image to `width` x `height` by averaging the pixels each target
+ * pixel covers. Sixel has no way to ask the terminal to scale, so images are
+ * sized here before they're encoded.
+ */
+export function scaleImage(image: RgbaImage, width: number, height: number): RgbaImage {
+  if (width >= image.width && height >= image.height) return image;
+
+  const pixels = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor((y * image.height) / height);
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * image.height) / height));
+
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor((x * image.width) / width);
+      const right = Math.max(left + 1, Math.floor(((x + 1) * image.width) / width));
+
+      const sums = [0, 0, 0, 0];
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const source = (sy * image.width + sx) * 4;
+          for (let channel = 0; channel < 4; channel++) {
+            sums[channel] += image.pixels[source + channel];
+          }
+        }
+      }
+
+      const count = (bottom - top) * (right - left);
+      const target = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        pixels[target + channel] = Math.round(sums[channel] / count);
+      }
+    }
+  }
+
+  return { width, height, pixels };
+}
@@ -0,0 +1,165 @@
+// Thread schema - validates thread files and normalizes them into the internal model
+
+import type { AmpMessage, AmpThread, AmpThreadUsage } from "./collector";
+
+type RawRecord = Record<string, unknown>;
+
+export interface ParsedThread {
+  thread: AmpThread;
+  /** Problems that were worked around, e.g. messages dropped as malformed */
+  issues: string[];
+}
+
+/**
+ * Validate a parsed thread file and normalize it into AmpThread. Malformed
+ * messages or fields are dropped and reported as issues so the rest of the
+ * thread still counts; only a thread without a creation time or a message
+ * list is rejected, by throwing an Error that names the offending field.
+ *
+ * Amp's `v` counts edits to a thread rather than naming a storage format, so
+ * it is kept as-is and never used to pick how the file is read. Amp has
+ * written a single thread shape so far; a change to it shows up here as
+ * validation issues instead of silent zeros.
+ */
+export function parseThread(raw: unknown): ParsedThread {
+  if (!isRecord(raw)) {
+    throw new Error("expected a JSON object");
+  }
+
+  const created = parseTimestamp(raw.created);
+  if (created === undefined) {
+    throw new Error("created: expected a timestamp");
+  }
+
+  if (!Array.isArray(raw.messages)) {
+    throw new Error("messages: expected an array");
+  }
+
+  const issues: string[] = [];
+
+  const version = toCount(raw.v);
+  if (version === undefined && raw.v !== undefined) {
+    issues.push("v: expected a number");
+  }
+
+  const messages: AmpMessage[] = [];
+  raw.messages.forEach((rawMessage, index) => {
+    const message = parseMessage(rawMessage, index, issues);
+    if (message) messages.push(message);
+  });
+
+  return {
+    thread: {
+      id: typeof raw.id === "string" ? raw.id : "",
+      v: version ?? 0,
+      created,
+      messages,
+    },
+    issues,
+  };
+}
+
+function parseMessage(raw: unknown, index: number, issues: string[]): AmpMessage | null {
+  const path = `messages[${index}]`;
+
+  if (!isRecord(raw)) {
+    issues.push(`${path}: expected an object`);
+    return null;
+  }
+
+  // Other roles (e.g. system notices) carry nothing the stats use
+  if (raw.role !== "user" && raw.role !== "assistant") {
+    if (typeof raw.role !== "string") issues.push(`${path}.role: expected a string`);
+    return null;
+  }
+
+  const message: AmpMessage = {
+    role: raw.role,
+    messageId: typeof raw.messageId === "number" ? raw.messageId : index,
+  };
+
+  if (raw.content !== undefined) {
+    if (Array.isArray(raw.content)) {
+      message.content = raw.content;
+    } else {
+      issues.push(`${path}.content: expected an array`);
+    }
+  }
+
+  if (raw.usage !== undefined) {
+    const usage = parseUsage(raw.usage);
+    if (usage) {
+      message.usage = usage;
+    } else {
+      issues.push(`${path}.usage: expected token counts`);
+    }
+  }
+
+  if (isRecord(raw.fileMentions)) {
+    message.fileMentions = {
+      files: parseUris(raw.fileMentions.files),
+      mentions: parseUris(raw.fileMentions.mentions),
+    };
+  }
+
+  if (isRecord(raw.meta) && raw.meta.sentAt !== undefined) {
+    const sentAt = parseTimestamp(raw.meta.sentAt);
+    if (sentAt !== undefined) {
+      message.meta = { sentAt };
+    } else {
+      issues.push(`${path}.meta.sentAt: expected a timestamp`);
+    }
+  }
+
+  return message;
+}
+
+// Entries without a URI are dropped; nothing else in them is read
+function parseUris(raw: unknown): Array<{ uri: string }> | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw
+    .filter((entry): entry is RawRecord => isRecord(entry) && typeof entry.uri === "string")
+    .map((entry) => ({ uri: entry.uri as string }));
+}
+
+function parseUsage(raw: unknown): AmpThreadUsage | null {
+  if (!isRecord(raw)) return null;
+
+  const inputTokens = toCount(raw.inputTokens);
+  const outputTokens = toCount(raw.outputTokens);
+  if (inputTokens === undefined && outputTokens === undefined) return null;
+
+  const cacheReadInputTokens = toCount(raw.cacheReadInputTokens) ?? 0;
+
+  return {
+    model: typeof raw.model === "string" ? raw.model : "unknown",
+    inputTokens: inputTokens ?? 0,
+    outputTokens: outputTokens ?? 0,
+    cacheReadInputTokens,
+    totalInputTokens: toCount(raw.totalInputTokens) ?? (inputTokens ?? 0) + cacheReadInputTokens,
+    credits: toCount(raw.credits) ?? 0,
+  };
+}
+
+/**
+ * Epoch milliseconds, epoch seconds or an ISO 8601 string, as epoch milliseconds
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+    // Anything before 2001 in milliseconds is really seconds
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === "string") {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+function toCount(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,102 @@
+// Tool classification for the tool calls found in assistant messages
+
+import type { AmpToolCategory } from "./types";
+import type { AmpToolUseBlock } from "./collector";
+
+const TOOL_CATEGORIES: Record<string, AmpToolCategory> = {
+  edit_file: "edit",
+  create_file: "edit",
+  undo_edit: "edit",
+  format_file: "edit",
+  apply_patch: "edit",
+  multi_edit: "edit",
+  Read: "read",
+  read_file: "read",
+  list_directory: "read",
+  look_at: "read",
+  get_diagnostics: "read",
+  glob: "search",
+  Grep: "search",
+  finder: "search",
+  codebase_search_agent: "search",
+  web_search: "search",
+  read_web_page: "search",
+  librarian: "search",
+  Bash: "command",
+  shell: "command",
+  run_command: "command",
+};
+
+const TOOL_NAMES: Record<string, string> = {
+  edit_file: "Edit File",
+  create_file: "Create File",
+  undo_edit: "Undo Edit",
+  format_file: "Format File",
+  Read: "Read",
+  read_file: "Read",
+  list_directory: "List Directory",
+  look_at: "Look At",
+  get_diagnostics: "Diagnostics",
+  glob: "Glob",
+  Grep: "Grep",
+  finder: "Finder",
+  codebase_search_agent: "Codebase Search",
+  web_search: "Web Search",
+  read_web_page: "Read Web Page",
+  librarian: "Librarian",
+  Bash: "Bash",
+  Task: "Subagent",
+  oracle: "Oracle",
+  todo_write: "Todo Write",
+  todo_read: "Todo Read",
+  mermaid: "Mermaid",
+};
+
+// Wrappers skipped to find the program a shell command actually runs
+const COMMAND_PREFIXES = new Set(["sudo", "env", "time", "nohup", "exec", "command"]);
+
+export function getToolCategory(toolName: string): AmpToolCategory {
+  return TOOL_CATEGORIES[toolName] ?? "other";
+}
+
+export function getToolDisplayName(toolName: string): string {
+  if (TOOL_NAMES[toolName]) return TOOL_NAMES[toolName];
+
+  // MCP tools are named mcp__<server>__<tool>
+  const mcpMatch = /^mcp__(.+?)__(.+)$/.exec(toolName);
+  if (mcpMatch) return `${mcpMatch[2]} (${mcpMatch[1]})`;
+
+  return toolName
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" ");
+}
+
+/**
+ * Program name of a shell tool call, e.g. "git" for `cd repo && git status`.
+ * Returns null for tools that don't run commands.
+ */
+export function extractCommandName(block: AmpToolUseBlock): string | null {
+  if (getToolCategory(block.name) !== "command") return null;
+
+  const command = block.input.cmd ?? block.input.command;
+  if (typeof command !== "string") return null;
+
+  // Skip `cd` in chains like `cd repo && npm test`
+  const programs = command
+    .split(/&&|\|\||;|\n/)
+    .map((segment) => findProgram(segment.trim()))
+    .filter((program): program is string => program !== null);
+
+  return programs.find((program) => program !== "cd") ?? programs[0] ?? null;
+}
+
+function findProgram(segment: string): string | null {
+  for (const token of segment.split(/\s+/)) {
+    // Skip environment assignments (FOO=bar) and wrappers (sudo, env, ...)
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(token) || COMMAND_PREFIXES.has(token)) continue;
+    const program = token.split("/").pop();
+    return program || null;
+  }
+  return null;
+}
@@ -2,6 +2,8 @@
 
 export interface AmpCodeStats {
   year: number;
+  range: AmpDateRange;
+  timeZone: string; // IANA name days and hours are bucketed by
 
   // Time-based
   firstSessionDate: Date;
@@ -23,19 +25,29 @@ export interface AmpCodeStats {
   totalCredits: number;
   hasCredits: boolean;
 
-  // Models (sorted by usage)
-  topModels: AmpModelStats[];
+  // Every model and provider used, sorted by tokens
+  models: AmpModelStats[];
+  providers: AmpProviderStats[];
 
-  // Providers (sorted by usage)
+  // The first --top of each (default 3)
+  topModels: AmpModelStats[];
   topProviders: AmpProviderStats[];
 
+  // Projects (sorted by messages)
+  topProjects: AmpProjectStats[];
+
+  // Tool calls made by the agent
+  toolUsage: AmpToolUsage;
+
   // Streak
   maxStreak: number;
   currentStreak: number;
   maxStreakDays: Set<string>;
 
-  // Activity heatmap
+  // Activity heatmap, valued by the chosen metric
+  heatmapMetric: AmpHeatmapMetric;
   dailyActivity: Map<string, number>;
+  dailyTotals: Map<string, AmpDailyActivity>;
 
   // Most active day
   mostActiveDay: {
@@ -46,24 +58,94 @@ export interface AmpCodeStats {
 
   // Weekday activity distribution
   weekdayActivity: AmpWeekdayActivity;
+
+  // Hour-of-day activity distribution
+  hourlyActivity: AmpHourlyActivity;
+
+  // Totals per calendar year the range touches, ascending
+  yearlyTotals: AmpYearlyTotals[];
+
+  // What was read to produce these stats, and what had to be skipped
+  diagnostics: AmpScanDiagnostics;
 }
 
 export interface AmpModelStats {
   id: string;
   name: string;
   providerId: string;
-  count: number;
-  percentage: number;
+  count: number; // Tokens: input + output + cache read
+  percentage: number; // Share of all tokens, 0-100
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
   credits: number;
 }
 
 export interface AmpProviderStats {
   id: string;
   name: string;
+  count: number; // Tokens
+  percentage: number; // Share of all tokens, 0-100
+  credits: number;
+}
+
+export interface AmpProjectStats {
+  path: string;
+  name: string;
+  threads: number;
+  messages: number;
+  tokens: number;
+  credits: number;
+  activeDays: number;
+}
+
+export type AmpToolCategory = "edit" | "read" | "search" | "command" | "other";
+
+export interface AmpToolStats {
+  id: string;
+  name: string;
+  category: AmpToolCategory;
   count: number;
   percentage: number;
 }
 
+export interface AmpCommandStats {
+  command: string;
+  count: number;
+}
+
+export interface AmpToolUsage {
+  totalCalls: number;
+  topTools: AmpToolStats[];
+  categoryCounts: Record<AmpToolCategory, number>;
+  // Edits vs. reads and searches, e.g. 0.5 = one edit per two reads. null without any reads or searches
+  editReadRatio: number | null;
+  commandsRun: number;
+  topCommands: AmpCommandStats[];
+}
+
+export type AmpHeatmapMetric = "threads" | "messages" | "tokens" | "credits";
+
+export interface AmpDailyActivity {
+  threads: number; // Threads with a message that day
+  messages: number; // User messages sent that day
+  tokens: number;
+  credits: number;
+}
+
+// Each year's numbers match a --year report for it: threads and streaks that
+// cross New Year's count in both years
+export interface AmpYearlyTotals {
+  year: number;
+  threads: number; // Threads with activity that year
+  messages: number;
+  tokens: number;
+  credits: number;
+  activeDays: number;
+  count: number; // The heatmap metric
+  maxStreak: number;
+}
+
 export interface AmpWeekdayActivity {
   counts: [number, number, number, number, number, number, number];
   mostActiveDay: number;
@@ -71,7 +153,86 @@ export interface AmpWeekdayActivity {
   maxCount: number;
 }
 
+export type AmpDateRangeKind = "year" | "quarter" | "last" | "custom" | "all";
+
+export interface AmpDateRange {
+  kind: AmpDateRangeKind;
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+  label: string; // Shown in the card header and summary, e.g. "2026 Q3"
+  slug: string; // Filename-safe form, e.g. "2026-Q3"
+}
+
+export type AmpChronotypeId = "early-bird" | "daytime" | "evening" | "night-owl";
+
+export interface AmpChronotype {
+  id: AmpChronotypeId;
+  name: string;
+  description: string;
+}
+
+export interface AmpHourlyActivity {
+  counts: number[]; // 24 buckets, hour 0 = midnight
+  weekdayHourCounts: number[][]; // 7 x 24, Sunday first
+  peakHour: number;
+  maxCount: number;
+  chronotype: AmpChronotype | null;
+}
+
+// Two periods side by side, for the compare command
+export interface AmpStatsComparison {
+  before: AmpCodeStats;
+  after: AmpCodeStats;
+
+  threads: AmpDelta;
+  messages: AmpDelta;
+  projects: AmpDelta;
+  tokens: AmpDelta;
+  credits: AmpDelta;
+  hasCredits: boolean; // Either period used credits
+  activeDays: AmpDelta;
+  longestStreak: AmpDelta;
+
+  // Every model used in either period, by share of tokens in the later period
+  modelShifts: AmpModelShift[];
+}
+
+export interface AmpDelta {
+  before: number;
+  after: number;
+  change: number; // after - before
+  percentChange: number | null; // null when before is 0
+}
+
+export interface AmpModelShift {
+  id: string;
+  name: string;
+  providerId: string;
+  beforeShare: number; // Share of all tokens, 0-100
+  afterShare: number;
+  change: number; // Percentage points
+}
+
+export interface AmpScanWarning {
+  file: string; // Thread file or data directory
+  reason: string;
+  version?: number; // Thread `v` field, when the file could be parsed
+}
+
+export interface AmpScanDiagnostics {
+  totalFiles: number; // Thread files found across all data directories
+  parsedFiles: number; // Read and parsed from disk this run
+  cachedFiles: number; // Taken from the stats cache
+  outOfRangeFiles: number; // Last modified before the range, not read
+  failedFiles: number; // Could not be read or parsed
+  warnings: AmpScanWarning[];
+}
+
 export interface AmpCliArgs {
   year?: number;
+  since?: string;
+  until?: string;
+  last?: string;
+  quarter?: string;
   help?: boolean;
 }
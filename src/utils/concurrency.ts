@@ -0,0 +1,24 @@
+// Concurrency utilities
+
+/**
+ * Run `task` for every item with at most `limit` tasks in flight. Items are
+ * started in order but may finish in any order. Rejections are not caught;
+ * tasks that can fail on a single item should handle that themselves.
+ */
+export async function forEachConcurrent<T>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let nextIndex = 0;
+
+  async function worker(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      await task(items[index], index);
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+}
@@ -1,52 +1,144 @@
-// Date utilities for heatmap generation
+// Date utilities for heatmap generation and report ranges
 
-export function generateWeeksForYear(year: number): string[][] {
-  const weeks: string[][] = [];
+import type { AmpDateRange } from "../types";
+import { formatShortDate } from "./format";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
-  // Start from Jan 1st of the year
-  const startDate = new Date(year, 0, 1);
+// Every UTC offset in use is a multiple of 15 minutes, so all instants in the
+// same quarter hour fall on the same local day and hour
+const QUARTER_HOUR_MS = 15 * 60 * 1000;
+
+export interface ZonedTime {
+  dateKey: string; // YYYY-MM-DD
+  hour: number; // 0-23
+  weekday: number; // 0 = Sunday
+}
 
-  // Adjust to start from the first Sunday (or the day itself if it's Sunday)
-  const startDay = startDate.getDay();
-  const adjustedStart = new Date(startDate);
-  if (startDay !== 0) {
-    adjustedStart.setDate(startDate.getDate() - startDay);
+const zonedTimeCaches = new Map<string, { formatter: Intl.DateTimeFormat; cache: Map<number, ZonedTime> }>();
+
+/**
+ * Resolve the IANA time zone that activity is bucketed into days and hours by.
+ * Defaults to the system time zone (which honours TZ). Throws with a
+ * user-facing message for names the runtime doesn't know.
+ */
+export function resolveTimeZone(value?: string): string {
+  if (value === undefined) {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
   }
 
-  // End date is Dec 31st or today if it's the current year
-  const now = new Date();
-  const isCurrentYear = year === now.getFullYear();
-  const endDate = isCurrentYear ? now : new Date(year, 11, 31);
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: value.trim() }).resolvedOptions().timeZone;
+  } catch {
+    throw new Error(`Invalid --timezone "${value}". Expected an IANA name like Europe/Berlin or America/New_York.`);
+  }
+}
 
-  let currentDate = new Date(adjustedStart);
-  let currentWeek: string[] = [];
+/**
+ * Calendar day, hour and weekday of an instant in the given time zone. This is
+ * the only place timestamps become dates; everything after works on date keys.
+ */
+export function getZonedTime(date: Date, timeZone: string): ZonedTime {
+  let zone = zonedTimeCaches.get(timeZone);
+  if (!zone) {
+    zone = {
+      formatter: new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        hourCycle: "h23",
+      }),
+      cache: new Map(),
+    };
+    zonedTimeCaches.set(timeZone, zone);
+  }
+
+  const bucket = Math.floor(date.getTime() / QUARTER_HOUR_MS);
+  const cached = zone.cache.get(bucket);
+  if (cached) return cached;
+
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {};
+  for (const part of zone.formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  const dateKey = `${parts.year}-${parts.month}-${parts.day}`;
+  const zoned = { dateKey, hour: Number(parts.hour) % 24, weekday: getWeekday(dateKey) };
+  zone.cache.set(bucket, zoned);
+  return zoned;
+}
+
+export function formatDateKey(date: Date, timeZone: string): string {
+  return getZonedTime(date, timeZone).dateKey;
+}
+
+/**
+ * Local midnight of a date key, for display formatting only. Date math should
+ * use addDays, daysBetween and getWeekday, which don't depend on the system zone.
+ */
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Date keys are calendar days, so arithmetic runs in UTC where every day is 24 hours long
+function dateKeyToUtc(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function utcToDateKey(date: Date): string {
+  const year = String(date.getUTCFullYear()).padStart(4, "0");
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const date = dateKeyToUtc(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return utcToDateKey(date);
+}
 
-  while (currentDate <= endDate || currentWeek.length > 0) {
-    const dayOfWeek = currentDate.getDay();
+export function daysBetween(from: string, to: string): number {
+  return Math.round((dateKeyToUtc(to).getTime() - dateKeyToUtc(from).getTime()) / MS_PER_DAY);
+}
 
-    // Format date as YYYY-MM-DD
-    const dateStr = formatDateKey(currentDate);
+export function getWeekday(dateKey: string): number {
+  return dateKeyToUtc(dateKey).getUTCDay();
+}
 
-    // Only include dates within the year
-    if (currentDate.getFullYear() === year && currentDate <= endDate) {
-      currentWeek.push(dateStr);
-    } else if (currentDate.getFullYear() === year) {
-      // Pad with empty strings for dates outside range but in the week
+export function generateWeeksForRange(range: AmpDateRange, timeZone: string): string[][] {
+  const weeks: string[][] = [];
+
+  // End date is the end of the range, or today if the range is still running
+  const today = formatDateKey(new Date(), timeZone);
+  const endKey = range.end < today ? range.end : today;
+
+  // Start from the Sunday on or before the range start
+  let current = addDays(range.start, -getWeekday(range.start));
+  let currentWeek: string[] = [];
+
+  while (current <= endKey || currentWeek.length > 0) {
+    // Only include dates within the range
+    if (current >= range.start && current <= endKey) {
+      currentWeek.push(current);
+    } else if (current >= range.start && current <= range.end) {
+      // Pad with empty strings for days of the range that haven't happened yet
       currentWeek.push("");
     }
 
-    // If it's Saturday (end of week) or we've passed the end date
-    if (dayOfWeek === 6) {
+    // Saturday ends the week
+    if (getWeekday(current) === 6) {
       if (currentWeek.length > 0 && currentWeek.some((d) => d !== "")) {
         weeks.push(currentWeek);
       }
       currentWeek = [];
     }
 
-    currentDate.setDate(currentDate.getDate() + 1);
-
-    // Safety: stop if we've gone too far past the year
-    if (currentDate.getFullYear() > year + 1) break;
+    current = addDays(current, 1);
   }
 
   // Add any remaining days
@@ -57,13 +149,6 @@ export function generateWeeksForYear(year: number): string[][] {
   return weeks;
 }
 
-export function formatDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
 export function getIntensityLevel(count: number, maxCount: number): 0 | 1 | 2 | 3 | 4 | 5 | 6 {
   if (count === 0) return 0;
   if (maxCount === 0) return 0;
@@ -79,11 +164,30 @@ export function getIntensityLevel(count: number, maxCount: number): 0 | 1 | 2 |
   return 6;
 }
 
-export function isWrappedAvailable(year: number): { available: boolean; message?: string | string[] } {
-  const now = new Date();
-  const currentYear = now.getFullYear();
-  const currentMonth = now.getMonth() + 1; // 1-12
-  const currentDay = now.getDate();
+export function isWrappedAvailable(
+  range: AmpDateRange,
+  timeZone: string,
+  now: Date = new Date()
+): { available: boolean; message?: string | string[] } {
+  // Every finished year is in it, so there's nothing to wait for
+  if (range.kind === "all") {
+    return { available: true };
+  }
+
+  const today = formatDateKey(now, timeZone);
+
+  if (range.kind !== "year") {
+    if (range.start > today) {
+      return {
+        available: false,
+        message: `Amp Wrapped for ${range.label} isn't available yet. The future hasn't been written!`,
+      };
+    }
+    return { available: true };
+  }
+
+  const year = parseInt(range.start.slice(0, 4), 10);
+  const currentYear = parseInt(today.slice(0, 4), 10);
 
   if (year < currentYear) {
     return { available: true };
@@ -97,14 +201,16 @@ export function isWrappedAvailable(year: number): { available: boolean; message?
   }
 
   const decemberLaunchDay = 20;
-  if (currentMonth < 12 || (currentMonth === 12 && currentDay < decemberLaunchDay)) {
-    const daysUntil = calculateDaysUntilLaunch(now, decemberLaunchDay);
+  const launchDate = `${year}-12-${decemberLaunchDay}`;
+  if (today < launchDate) {
+    const daysUntil = daysBetween(today, launchDate);
     return {
       available: false,
       message: [
         `Amp Wrapped ${year} isn't ready yet!`,
         `Come back on December ${decemberLaunchDay}th to unwrap your coding year in review.`,
         `Only ${daysUntil} days to go!`,
+        "Tip: use --last 90d or --since YYYY-MM-DD for a report on the year so far.",
       ],
     };
   }
@@ -112,8 +218,192 @@ export function isWrappedAvailable(year: number): { available: boolean; message?
   return { available: true };
 }
 
-function calculateDaysUntilLaunch(now: Date, launchDay: number): number {
-  const launchDate = new Date(now.getFullYear(), 11, launchDay);
-  const diffTime = launchDate.getTime() - now.getTime();
-  return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+export interface DateRangeOptions {
+  allTime?: boolean;
+  year?: string;
+  since?: string;
+  until?: string;
+  last?: string;
+  quarter?: string;
+}
+
+const LAST_UNITS: Record<string, string> = { d: "Day", w: "Week", m: "Month", y: "Year" };
+
+/**
+ * Resolve the report window from CLI options. Exactly one of --all-time, --year,
+ * --quarter, --last or --since/--until may be given; with none, the current year is used.
+ * "Today" is taken in the given time zone. Throws with a user-facing message
+ * when the options are invalid.
+ */
+export function resolveDateRange(options: DateRangeOptions, timeZone: string, now: Date = new Date()): AmpDateRange {
+  const today = formatDateKey(now, timeZone);
+
+  const modes = [
+    options.allTime && "--all-time",
+    options.year !== undefined && "--year",
+    options.quarter !== undefined && "--quarter",
+    options.last !== undefined && "--last",
+    (options.since !== undefined || options.until !== undefined) && "--since/--until",
+  ].filter(Boolean);
+
+  if (modes.length > 1) {
+    throw new Error(`Options ${modes.join(", ")} can't be combined. Pick one.`);
+  }
+
+  if (options.allTime) {
+    return allTimeRange(today);
+  }
+
+  if (options.quarter !== undefined) {
+    return quarterRange(options.quarter);
+  }
+
+  if (options.last !== undefined) {
+    return lastRange(options.last, today);
+  }
+
+  if (options.since !== undefined || options.until !== undefined) {
+    if (options.since === undefined) {
+      throw new Error("--until requires --since.");
+    }
+    const start = validateDateKey(options.since, "--since");
+    const end = options.until !== undefined ? validateDateKey(options.until, "--until") : today;
+    if (start > end) {
+      throw new Error(`--since (${start}) must not be after --until (${end}).`);
+    }
+    return {
+      kind: "custom",
+      start,
+      end,
+      label: formatRangeLabel(start, end),
+      slug: `${start}_${end}`,
+    };
+  }
+
+  const yearValue = options.year ?? today.slice(0, 4);
+  if (!/^\d{4}$/.test(yearValue)) {
+    throw new Error(`Invalid --year "${yearValue}". Expected YYYY.`);
+  }
+  return yearRange(parseInt(yearValue, 10));
+}
+
+/**
+ * Parse a period given as a single argument, as compare takes them: YYYY,
+ * YYYY-Qn, a duration like 90d, or YYYY-MM-DD..YYYY-MM-DD (the end may be
+ * left out for "until today"). Throws with a user-facing message.
+ */
+export function parsePeriod(value: string, timeZone: string, now: Date = new Date()): AmpDateRange {
+  const trimmed = value.trim();
+
+  if (/^\d{4}$/.test(trimmed)) {
+    return yearRange(parseInt(trimmed, 10));
+  }
+  if (/^\d{4}-?Q\d$/i.test(trimmed)) {
+    return quarterRange(trimmed);
+  }
+  if (/^\d+\s*[a-z]$/i.test(trimmed)) {
+    return lastRange(trimmed, formatDateKey(now, timeZone));
+  }
+
+  const custom = /^([^.]+)\.\.([^.]*)$/.exec(trimmed);
+  if (custom) {
+    return resolveDateRange({ since: custom[1], until: custom[2] || undefined }, timeZone, now);
+  }
+
+  throw new Error(`Invalid period "${value}". Expected YYYY, YYYY-Qn, a duration like 90d, or YYYY-MM-DD..YYYY-MM-DD.`);
+}
+
+export function yearRange(year: number): AmpDateRange {
+  return {
+    kind: "year",
+    start: `${year}-01-01`,
+    end: `${year}-12-31`,
+    label: String(year),
+    slug: String(year),
+  };
+}
+
+// Before any Amp thread; the stats narrow it to the first day with activity
+const ALL_TIME_START = "2000-01-01";
+
+/**
+ * Everything up to today. The start is a placeholder until the scan finds
+ * the first thread, see calculateAmpStats.
+ */
+export function allTimeRange(today: string): AmpDateRange {
+  return {
+    kind: "all",
+    start: ALL_TIME_START,
+    end: today,
+    label: "All Time",
+    slug: "all-time",
+  };
+}
+
+function quarterRange(value: string): AmpDateRange {
+  const match = /^(\d{4})-?Q([1-4])$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid --quarter "${value}". Expected YYYY-Qn, e.g. 2026-Q3.`);
+  }
+
+  const year = parseInt(match[1], 10);
+  const quarter = parseInt(match[2], 10);
+  const start = `${year}-${String((quarter - 1) * 3 + 1).padStart(2, "0")}-01`;
+  const nextQuarterStart = quarter === 4 ? `${year + 1}-01-01` : `${year}-${String(quarter * 3 + 1).padStart(2, "0")}-01`;
+
+  return {
+    kind: "quarter",
+    start,
+    end: addDays(nextQuarterStart, -1),
+    label: `${year} Q${quarter}`,
+    slug: `${year}-Q${quarter}`,
+  };
+}
+
+function lastRange(value: string, today: string): AmpDateRange {
+  const match = /^(\d+)\s*([dwmy])$/i.exec(value.trim());
+  const amount = match ? parseInt(match[1], 10) : 0;
+  if (!match || amount < 1) {
+    throw new Error(`Invalid --last "${value}". Expected a duration like 30d, 12w, 6m or 1y.`);
+  }
+
+  const unit = match[2].toLowerCase();
+  const start = dateKeyToUtc(today);
+
+  if (unit === "d") start.setUTCDate(start.getUTCDate() - amount);
+  if (unit === "w") start.setUTCDate(start.getUTCDate() - amount * 7);
+  if (unit === "m") start.setUTCMonth(start.getUTCMonth() - amount);
+  if (unit === "y") start.setUTCFullYear(start.getUTCFullYear() - amount);
+
+  // The window ends today, so it starts the day after "N units ago"
+  start.setUTCDate(start.getUTCDate() + 1);
+
+  const unitName = LAST_UNITS[unit];
+
+  return {
+    kind: "last",
+    start: utcToDateKey(start),
+    end: today,
+    label: amount === 1 ? `Last ${unitName}` : `Last ${amount} ${unitName}s`,
+    slug: `last-${amount}${unit}`,
+  };
+}
+
+function validateDateKey(value: string, flag: string): string {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed) && utcToDateKey(dateKeyToUtc(trimmed)) === trimmed) {
+    return trimmed;
+  }
+  throw new Error(`Invalid ${flag} "${value}". Expected YYYY-MM-DD.`);
+}
+
+function formatRangeLabel(start: string, end: string): string {
+  const startDate = parseDateKey(start);
+  const endDate = parseDateKey(end);
+
+  if (startDate.getFullYear() === endDate.getFullYear()) {
+    return `${formatShortDate(startDate)} – ${formatShortDate(endDate)}, ${endDate.getFullYear()}`;
+  }
+
+  return `${formatShortDate(startDate)}, ${startDate.getFullYear()} – ${formatShortDate(endDate)}, ${endDate.getFullYear()}`;
 }
@@ -30,11 +30,13 @@ const currencyCompactFormatter = new Intl.NumberFormat("en-US", {
   maximumFractionDigits: 1,
 });
 
-const dateFormatter = new Intl.DateTimeFormat("en-US", {
+const dateFormatOptions: Intl.DateTimeFormatOptions = {
   month: "long",
   day: "numeric",
   year: "numeric",
-});
+};
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", dateFormatOptions);
 
 const shortDateFormatter = new Intl.DateTimeFormat("en-US", {
   month: "short",
@@ -49,6 +51,14 @@ export function formatNumberFull(num: number): string {
   return fullNumberFormatter.format(num);
 }
 
+/**
+ * A count with its unit, which is given in the plural and loses its "s" for
+ * exactly one: "1 message", "2 messages"
+ */
+export function formatCount(count: number, unit: string, format: (num: number) => string = formatNumberFull): string {
+  return `${format(count)} ${count === 1 ? unit.replace(/s$/, "") : unit}`;
+}
+
 export function formatCost(cost: number): string {
   if (cost >= 1000) {
     return currencyCompactFormatter.format(cost);
@@ -60,10 +70,33 @@ export function formatCostFull(cost: number): string {
   return currencyFullFormatter.format(cost);
 }
 
-export function formatDate(date: Date): string {
+export function formatDate(date: Date, timeZone?: string): string {
+  if (timeZone) {
+    return new Intl.DateTimeFormat("en-US", { ...dateFormatOptions, timeZone }).format(date);
+  }
   return dateFormatter.format(date);
 }
 
 export function formatShortDate(date: Date): string {
   return shortDateFormatter.format(date);
 }
+
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength - 1)}…`;
+}
+
+/**
+ * Edits per read to two decimals. Without reads there's no ratio: "edits only"
+ * when there were edits, otherwise "n/a".
+ */
+export function formatEditReadRatio(ratio: number | null, edits: number): string {
+  if (ratio === null) return edits > 0 ? "edits only" : "n/a";
+  return ratio.toFixed(2);
+}
+
+export function formatHour(hour: number): string {
+  const suffix = hour < 12 ? "AM" : "PM";
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour} ${suffix}`;
+}